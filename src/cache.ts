@@ -0,0 +1,247 @@
+import { Md5 } from "./md5";
+import { QueryKnowledgeBasesBody, QueryKnowledgeBasesResponse } from "./types";
+
+export interface QueryCacheEntry {
+  /** The cached query response. */
+  value: QueryKnowledgeBasesResponse;
+  /** The knowledge bases the query covered, so writes to one of them can invalidate the entry. */
+  knowledgeBaseIds: string[];
+  /** When the entry expires, in milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+/**
+ * Storage for cached query responses. Implement it to keep the cache in a file, Redis or
+ * another shared store. Stores may evict entries at any time, and expired entries are
+ * ignored by the cache even if the store still returns them.
+ */
+export interface QueryCacheStore {
+  get(key: string): Promise<QueryCacheEntry | undefined>;
+  set(key: string, entry: QueryCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Deletes every entry whose `knowledgeBaseIds` include the knowledge base. */
+  deleteByKnowledgeBase(knowledgeBaseId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface MemoryQueryCacheStoreOptions {
+  /** Maximum number of entries. The least recently used entry is evicted first. Defaults to 1000. */
+  maxEntries?: number;
+}
+
+/**
+ * The default in-memory store, with least-recently-used eviction. Entries are stored as
+ * JSON, so callers can't modify cached responses through the objects they're given.
+ */
+export class MemoryQueryCacheStore implements QueryCacheStore {
+  private entries = new Map<
+    string,
+    Omit<QueryCacheEntry, "value"> & { value: string }
+  >();
+  private maxEntries: number;
+
+  constructor(options: MemoryQueryCacheStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 1000);
+  }
+
+  /** The number of entries in the store, including expired ones not yet evicted. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<QueryCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Maps iterate in insertion order, so re-inserting marks the entry as most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { ...entry, value: JSON.parse(entry.value) };
+  }
+
+  async set(key: string, entry: QueryCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, value: JSON.stringify(entry.value) });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteByKnowledgeBase(knowledgeBaseId: string): Promise<void> {
+    this.entries.forEach((entry, key) => {
+      if (entry.knowledgeBaseIds.indexOf(knowledgeBaseId) !== -1) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export interface QueryCacheOptions extends MemoryQueryCacheStoreOptions {
+  /** Where entries are kept. Defaults to a `MemoryQueryCacheStore` limited to `maxEntries`. */
+  store?: QueryCacheStore;
+  /** How long responses are reused, in milliseconds. Defaults to 5 minutes. */
+  ttl?: number;
+}
+
+/** Sorts object keys and drops undefined values, so equal bodies serialize identically. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function uniqueSorted(values: string[]): string[] {
+  return values
+    .filter((value, index) => values.indexOf(value) === index)
+    .sort();
+}
+
+/**
+ * Computes the cache key of a query. Key order, whitespace around and within the query,
+ * and the order of `knowledge_base_ids` don't affect the key, and `async` is ignored.
+ * @param {QueryKnowledgeBasesBody} body - The query body.
+ * @returns {string} The key, e.g. `query:5d41402abc4b2a76b9719d911017c592`.
+ */
+export function createQueryCacheKey(body: QueryKnowledgeBasesBody): string {
+  const { async, ...rest } = body;
+  const normalized = stableStringify({
+    ...rest,
+    query: body.query.replace(/\s+/g, " ").trim(),
+    knowledge_base_ids: uniqueSorted(body.knowledge_base_ids),
+  });
+  const digest = new Md5()
+    .update(new TextEncoder().encode(normalized))
+    .digest();
+  let hex = "";
+  digest.forEach((byte) => {
+    hex += (byte < 16 ? "0" : "") + byte.toString(16);
+  });
+  return `query:${hex}`;
+}
+
+/**
+ * Caches knowledge base query responses. Pass `cache` to the client to enable it; document
+ * writes made through the client invalidate the entries of the knowledge base they touch.
+ */
+export class QueryCache {
+  readonly store: QueryCacheStore;
+  private ttl: number;
+  /** Incremented on every invalidation, so responses that raced a write aren't cached. */
+  private generations = new Map<string, number>();
+  private generation = 0;
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.store =
+      options.store ??
+      new MemoryQueryCacheStore({ maxEntries: options.maxEntries });
+    this.ttl = options.ttl ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Gets the cached response to a query.
+   * @param {QueryKnowledgeBasesBody} body - The query body.
+   * @returns {Promise<QueryKnowledgeBasesResponse | undefined>} The response, or undefined if it isn't cached or has expired.
+   */
+  async get(
+    body: QueryKnowledgeBasesBody
+  ): Promise<QueryKnowledgeBasesResponse | undefined> {
+    const key = createQueryCacheKey(body);
+    const entry = await this.store.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  }
+
+  /**
+   * Caches the response to a query.
+   * @param {QueryKnowledgeBasesBody} body - The query body.
+   * @param {QueryKnowledgeBasesResponse} value - The response.
+   * @returns {Promise<void>}
+   */
+  async set(
+    body: QueryKnowledgeBasesBody,
+    value: QueryKnowledgeBasesResponse
+  ): Promise<void> {
+    await this.store.set(createQueryCacheKey(body), {
+      value,
+      knowledgeBaseIds: uniqueSorted(body.knowledge_base_ids),
+      expiresAt: Date.now() + this.ttl,
+    });
+  }
+
+  /**
+   * Returns the cached response to a query, or loads and caches it. Responses loaded while
+   * one of the query's knowledge bases was invalidated are returned but not cached.
+   * @param {QueryKnowledgeBasesBody} body - The query body.
+   * @param {() => Promise<QueryKnowledgeBasesResponse>} load - Sends the query.
+   * @returns {Promise<QueryKnowledgeBasesResponse>} The response.
+   */
+  async getOrLoad(
+    body: QueryKnowledgeBasesBody,
+    load: () => Promise<QueryKnowledgeBasesResponse>
+  ): Promise<QueryKnowledgeBasesResponse> {
+    const cached = await this.get(body);
+    if (cached) {
+      return cached;
+    }
+    const before = this.getGeneration(body.knowledge_base_ids);
+    const value = await load();
+    if (this.getGeneration(body.knowledge_base_ids) === before) {
+      await this.set(body, value);
+    }
+    return value;
+  }
+
+  /**
+   * Deletes the cached responses of every query that covered a knowledge base.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @returns {Promise<void>}
+   */
+  async invalidate(knowledgeBaseId: string): Promise<void> {
+    this.generations.set(
+      knowledgeBaseId,
+      (this.generations.get(knowledgeBaseId) ?? 0) + 1
+    );
+    await this.store.deleteByKnowledgeBase(knowledgeBaseId);
+  }
+
+  /**
+   * Deletes every cached response.
+   * @returns {Promise<void>}
+   */
+  async clear(): Promise<void> {
+    this.generation++;
+    await this.store.clear();
+  }
+
+  private getGeneration(knowledgeBaseIds: string[]): number {
+    return knowledgeBaseIds.reduce(
+      (sum, id) => sum + (this.generations.get(id) ?? 0),
+      this.generation
+    );
+  }
+}
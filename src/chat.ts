@@ -5,10 +5,108 @@ import {
   ChatResponse,
   AsyncJobResponse,
   ChatInteraction,
+  ChatStreamEvent,
 } from "./types";
+import { PageIterator, PaginationOptions } from "./pagination";
+import { JobAPI, WaitForJobOptions, isAsyncJobResponse } from "./jobs";
+import {
+  NotFoundError,
+  RequestAbortedError,
+  SuperpoweredApiError,
+  ValidationError,
+} from "./errors";
+import {
+  ServerSentEvent,
+  parseServerSentEvents,
+  readStreamText,
+  toChunkIterable,
+} from "./streaming";
+import { throwIfAborted } from "./utils";
+import { Conversation, ConversationOptions } from "./conversation";
+import {
+  ChatTranscript,
+  TranscriptImportReport,
+  createTranscript,
+  parseTranscript,
+  validateTranscript,
+} from "./transcripts";
+
+/**
+ * Statuses with which the API rejects a streaming request it cannot serve. 400 and 422 mean
+ * the request itself is invalid, so they are thrown rather than retried as an async job.
+ */
+const STREAMING_UNSUPPORTED_STATUSES = [406, 415, 501];
+
+export interface StreamChatOptions {
+  /** Signal that cancels the stream. */
+  signal?: AbortSignal;
+  /** Polling options used when falling back to an async job. */
+  jobOptions?: Omit<WaitForJobOptions, "signal">;
+}
+
+/**
+ * Splits a complete chat response into the events a stream would have produced.
+ */
+function* chatResponseToEvents(
+  response: ChatResponse
+): IterableIterator<ChatStreamEvent> {
+  yield { type: "search_queries", search_queries: response.search_queries };
+  yield { type: "ranked_results", ranked_results: response.ranked_results };
+  yield {
+    type: "text_delta",
+    delta: response.interaction.model_response.content,
+  };
+  yield { type: "interaction", interaction: response.interaction };
+}
+
+/**
+ * Maps a server-sent event to a typed chat stream event, or undefined for events the SDK doesn't model.
+ */
+function toChatStreamEvent({
+  event,
+  data,
+}: ServerSentEvent): ChatStreamEvent | undefined {
+  if (data === "[DONE]") {
+    return undefined;
+  }
+
+  const payload = JSON.parse(data);
+  switch (event) {
+    case "text_delta":
+      return {
+        type: "text_delta",
+        delta: typeof payload === "string" ? payload : payload.delta,
+      };
+    case "search_queries":
+      return {
+        type: "search_queries",
+        search_queries: payload.search_queries ?? payload,
+      };
+    case "ranked_results":
+      return {
+        type: "ranked_results",
+        ranked_results: payload.ranked_results ?? payload,
+      };
+    case "interaction":
+      return {
+        type: "interaction",
+        interaction: payload.interaction ?? payload,
+      };
+    case "error":
+      throw new SuperpoweredApiError(
+        `Chat stream failed: ${payload.error ?? payload.message ?? data}`,
+        { body: payload }
+      );
+    default:
+      return undefined;
+  }
+}
 
 export class ChatAPI {
-  constructor(private axiosInstance: AxiosInstance) {}
+  constructor(
+    private axiosInstance: AxiosInstance,
+    private jobs: JobAPI = new JobAPI(axiosInstance)
+  ) {}
 
   /**
    * Creates a new chat thread.
@@ -42,6 +140,26 @@ export class ChatAPI {
     return response.data;
   }
 
+  /**
+   * Iterates over every chat thread, following page tokens automatically.
+   * @param {Object} [filters] - Optional filters for the chat threads.
+   * @param {string} [filters.supp_id] - The support ID.
+   * @param {PaginationOptions} [options] - Optional max-items cap and page size.
+   * @returns {PageIterator<ChatThread>} An async iterable over the chat threads.
+   */
+  iterateChatThreads(
+    filters?: { supp_id?: string },
+    options?: PaginationOptions
+  ): PageIterator<ChatThread> {
+    return new PageIterator(async (page) => {
+      const { threads, next_page_token } = await this.listChatThreads({
+        ...filters,
+        ...page,
+      });
+      return { items: threads, next_page_token };
+    }, options);
+  }
+
   /**
    * Gets a chat thread by ID.
    * @param {string} threadId - The ID of the chat thread.
@@ -98,6 +216,85 @@ export class ChatAPI {
     return response.data;
   }
 
+  /**
+   * Streams a response for a chat thread as server-sent events.
+   * Falls back to an async job when the API does not stream the response.
+   * @param {string} threadId - The ID of the chat thread.
+   * @param {Omit<ChatThreadBody, "async">} data - The data for getting the chat thread response.
+   * @param {StreamChatOptions} [options] - Optional abort signal and fallback polling options.
+   * @returns {AsyncIterableIterator<ChatStreamEvent>} The text deltas, search queries, ranked results and final interaction.
+   */
+  async *streamChatThreadResponse(
+    threadId: string,
+    data: Omit<ChatThreadBody, "async">,
+    options: StreamChatOptions = {}
+  ): AsyncIterableIterator<ChatStreamEvent> {
+    const { signal, jobOptions } = options;
+    let response;
+
+    try {
+      response = await this.axiosInstance.post(
+        `/chat/threads/${threadId}/get_response`,
+        { ...data, stream: true },
+        {
+          headers: { Accept: "text/event-stream" },
+          responseType: "stream",
+          signal,
+        }
+      );
+    } catch (error) {
+      if (
+        !(error instanceof SuperpoweredApiError) ||
+        STREAMING_UNSUPPORTED_STATUSES.indexOf(error.status ?? 0) === -1
+      ) {
+        throw error;
+      }
+
+      const result = await this.getChatThreadResponse(threadId, {
+        ...data,
+        async: true,
+      });
+      yield* chatResponseToEvents(
+        isAsyncJobResponse(result)
+          ? await this.jobs.waitForChatResponse(result, {
+              ...jobOptions,
+              signal,
+            })
+          : result
+      );
+      return;
+    }
+
+    const contentType = String(response.headers["content-type"] ?? "");
+    if (contentType.indexOf("text/event-stream") === -1) {
+      const result = JSON.parse(await readStreamText(response.data));
+      yield* chatResponseToEvents(
+        isAsyncJobResponse<ChatResponse>(result)
+          ? await this.jobs.waitForChatResponse(result, {
+              ...jobOptions,
+              signal,
+            })
+          : result
+      );
+      return;
+    }
+
+    try {
+      for await (const event of parseServerSentEvents(
+        toChunkIterable(response.data)
+      )) {
+        throwIfAborted(signal);
+        const chatEvent = toChatStreamEvent(event);
+        if (chatEvent) {
+          yield chatEvent;
+        }
+      }
+    } catch (error) {
+      throwIfAborted(signal);
+      throw error;
+    }
+  }
+
   /**
    * Lists interactions for a chat thread.
    * @param {string} threadId - The ID of the chat thread.
@@ -121,4 +318,115 @@ export class ChatAPI {
     );
     return response.data;
   }
+
+  /**
+   * Iterates over every interaction in a chat thread, following page tokens automatically.
+   * @param {string} threadId - The ID of the chat thread.
+   * @param {Object} [params] - Optional parameters for listing chat thread interactions.
+   * @param {"asc" | "desc"} [params.order] - The order of interactions.
+   * @param {PaginationOptions} [options] - Optional max-items cap and page size.
+   * @returns {PageIterator<ChatInteraction>} An async iterable over the chat interactions.
+   */
+  iterateChatThreadInteractions(
+    threadId: string,
+    params?: { order?: "asc" | "desc" },
+    options?: PaginationOptions
+  ): PageIterator<ChatInteraction> {
+    return new PageIterator(async (page) => {
+      const { interactions, next_page_token } =
+        await this.listChatThreadInteractions(threadId, {
+          ...params,
+          ...page,
+        });
+      return { items: interactions, next_page_token };
+    }, options);
+  }
+
+  /**
+   * Starts a conversation that manages its chat thread and history.
+   * The thread is created on the first message unless `options.threadId` is given.
+   * @param {ConversationOptions} [options] - The thread to continue or create, and polling options.
+   * @returns {Conversation} The conversation.
+   */
+  conversation(options?: ConversationOptions): Conversation {
+    return new Conversation(this, this.jobs, options);
+  }
+
+  /**
+   * Exports a chat thread with all its interactions.
+   * Serialize the transcript with `formatTranscript` as JSON, JSONL or Markdown.
+   * @param {string} threadId - The ID of the chat thread.
+   * @returns {Promise<ChatTranscript>} The transcript.
+   */
+  async exportChatThread(threadId: string): Promise<ChatTranscript> {
+    const thread = await this.getChatThread(threadId);
+    const interactions = await this.iterateChatThreadInteractions(threadId, {
+      order: "asc",
+    }).collectAll();
+    return createTranscript(thread, interactions);
+  }
+
+  /**
+   * Recreates a chat thread from a transcript by creating a thread with the same title and
+   * default options, then replaying each user input in order. Inputs that fail are reported
+   * and skipped.
+   * @param {ChatTranscript | string} transcript - The transcript, or its JSON or JSONL serialization.
+   * @param {Object} [options] - Optional parameters.
+   * @param {string} [options.title] - Title of the new thread. Defaults to the transcript's.
+   * @param {string} [options.supp_id] - Supplementary ID of the new thread. Defaults to the transcript's.
+   * @param {Omit<WaitForJobOptions, "signal">} [options.jobOptions] - Polling options for async responses.
+   * @param {AbortSignal} [options.signal] - Signal that stops the replay.
+   * @returns {Promise<TranscriptImportReport>} The new thread and which interactions were replayed.
+   */
+  async importChatThread(
+    transcript: ChatTranscript | string,
+    options: {
+      title?: string;
+      supp_id?: string;
+      jobOptions?: Omit<WaitForJobOptions, "signal">;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<TranscriptImportReport> {
+    const { thread, interactions } =
+      typeof transcript === "string"
+        ? parseTranscript(transcript)
+        : validateTranscript(transcript);
+    const { signal } = options;
+    const created = await this.createChatThread({
+      title: options.title ?? thread.title,
+      supp_id: options.supp_id ?? thread.supp_id,
+      default_options: thread.default_options,
+    });
+
+    const report: TranscriptImportReport = {
+      thread: created,
+      replayed: [],
+      failed: [],
+    };
+    for (let index = 0; index < interactions.length; index++) {
+      throwIfAborted(signal);
+      const input = interactions[index].user_input.content;
+      try {
+        const result = await this.getChatThreadResponse(created.id, { input });
+        const response = isAsyncJobResponse<ChatResponse>(result)
+          ? await this.jobs.waitForChatResponse(result, {
+              ...options.jobOptions,
+              signal,
+            })
+          : result;
+        report.replayed.push(response.interaction);
+      } catch (error) {
+        if (error instanceof RequestAbortedError) {
+          throw error;
+        }
+        report.failed.push({
+          index,
+          input,
+          errorMessage: (error as Error).message,
+        });
+      }
+    }
+    report.thread = await this.getChatThread(created.id);
+    return report;
+  }
 }
@@ -0,0 +1,289 @@
+import { ChatInteraction, RankedResult, WebSearchResult } from "./types";
+import { escapeMarkdownText, escapeMarkdownUrl, isWebUrl } from "./utils";
+
+function pick<T>(items: T[], indices: number[] | undefined): T[] {
+  return (indices ?? [])
+    .filter((index) => index >= 0 && index < items.length)
+    .map((index) => items[index]);
+}
+
+/**
+ * Gets the ranked results a chat response cites, in the order of its `references`.
+ * @param {ChatInteraction} interaction - The chat interaction.
+ * @param {RankedResult[]} [rankedResults] - The results `references` index into. Defaults to the interaction's `ranked_results`.
+ * @returns {RankedResult[]} The cited results.
+ */
+export function getCitations(
+  interaction: ChatInteraction,
+  rankedResults: RankedResult[] = interaction.ranked_results ?? []
+): RankedResult[] {
+  return pick(rankedResults, interaction.references);
+}
+
+/**
+ * Gets the web search results a chat response cites, in the order of its `web_search_references`.
+ * @param {ChatInteraction} interaction - The chat interaction.
+ * @param {WebSearchResult[]} [webSearchResults] - The results `web_search_references` index into. Defaults to the interaction's `web_search_results`.
+ * @returns {WebSearchResult[]} The cited web search results.
+ */
+export function getWebCitations(
+  interaction: ChatInteraction,
+  webSearchResults: WebSearchResult[] = interaction.web_search_results ?? []
+): WebSearchResult[] {
+  return pick(webSearchResults, interaction.web_search_references);
+}
+
+export type CitationFormat = "markdown" | "html" | "text";
+
+export interface CitationSource {
+  /** The footnote number, starting at 1. */
+  number: number;
+  /** Whether the source is a knowledge base document or a web page. */
+  type: "document" | "web";
+  /** The document or page title. */
+  title: string;
+  /** The document's `link_to_source`, or the page URL. */
+  url?: string;
+  /** The document's supplementary ID. */
+  supp_id?: string;
+  /** The ID of the document. */
+  documentId?: string;
+  /** The ID of the document's knowledge base. */
+  knowledgeBaseId?: string;
+  /** The cited text, shortened to `excerptLength`. */
+  excerpt: string;
+  /** The indices into `ranked_results` or `web_search_results` that resolved to this source. */
+  references: number[];
+}
+
+export interface CitationOptions {
+  /** The results `references` index into. Defaults to the interaction's `ranked_results`. */
+  rankedResults?: RankedResult[];
+  /** The results `web_search_references` index into. Defaults to the interaction's `web_search_results`. */
+  webSearchResults?: WebSearchResult[];
+  /** Maximum length of excerpts in characters. Pass 0 to omit excerpts. Defaults to 200. */
+  excerptLength?: number;
+  /** Prefix of the footnote element IDs in HTML output. Defaults to `cite`. */
+  idPrefix?: string;
+}
+
+function toExcerpt(content: string, length: number): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (length <= 0) {
+    return "";
+  }
+  return text.length > length
+    ? `${text.slice(0, length - 1).replace(/\s+$/, "")}…`
+    : text;
+}
+
+/**
+ * Resolves the references of a chat interaction to numbered sources. Results from the
+ * same document share one source, as do web results with the same URL.
+ * @param {ChatInteraction} interaction - The chat interaction.
+ * @param {CitationOptions} [options] - Optional result arrays and excerpt length.
+ * @returns {CitationSource[]} The sources in order of first reference, documents first.
+ */
+export function resolveSources(
+  interaction: ChatInteraction,
+  options: CitationOptions = {}
+): CitationSource[] {
+  const {
+    rankedResults = interaction.ranked_results ?? [],
+    webSearchResults = interaction.web_search_results ?? [],
+    excerptLength = 200,
+  } = options;
+  const sources: CitationSource[] = [];
+  const byKey = new Map<string, CitationSource>();
+
+  const add = (
+    key: string,
+    reference: number,
+    create: () => Omit<CitationSource, "number" | "references">
+  ) => {
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.references.push(reference);
+      return;
+    }
+    const source = {
+      ...create(),
+      number: sources.length + 1,
+      references: [reference],
+    };
+    byKey.set(key, source);
+    sources.push(source);
+  };
+
+  for (const index of interaction.references ?? []) {
+    const result = rankedResults[index];
+    if (!result) {
+      continue;
+    }
+    const { document, document_id, knowledge_base_id } = result.metadata;
+    add(`document:${document_id}`, index, () => ({
+      type: "document",
+      title: document.title,
+      url: document.link_to_source,
+      supp_id: document.supp_id,
+      documentId: document_id,
+      knowledgeBaseId: knowledge_base_id,
+      excerpt: toExcerpt(result.content, excerptLength),
+    }));
+  }
+  for (const index of interaction.web_search_references ?? []) {
+    const result = webSearchResults[index];
+    if (!result) {
+      continue;
+    }
+    add(`web:${result.url}`, index, () => ({
+      type: "web",
+      title: result.title,
+      url: result.url,
+      excerpt: toExcerpt(result.content, excerptLength),
+    }));
+  }
+  return sources;
+}
+
+/**
+ * Places footnote markers in the response text. Markers such as `[2]` that point at a cited
+ * ranked result are renumbered, and markers for sources the text doesn't mention are appended.
+ */
+function placeMarkers(
+  text: string,
+  sources: CitationSource[],
+  marker: (source: CitationSource) => string,
+  escape: (text: string) => string
+): string {
+  const byReference = new Map<number, CitationSource>();
+  for (const source of sources) {
+    if (source.type === "document") {
+      source.references.forEach((index) => byReference.set(index, source));
+    }
+  }
+
+  const parts: string[] = [];
+  const mentioned = new Set<CitationSource>();
+  let last = 0;
+  const pattern = /\[(\d+)\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const source = byReference.get(Number(match[1]));
+    if (source) {
+      parts.push(escape(text.slice(last, match.index)), marker(source));
+      last = match.index + match[0].length;
+      mentioned.add(source);
+    }
+  }
+  parts.push(escape(text.slice(last)));
+
+  // Sources the text doesn't mention, such as web results, get a marker at the end.
+  for (const source of sources) {
+    if (!mentioned.has(source)) {
+      parts.push(marker(source));
+    }
+  }
+  return parts.join("");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatMarkdown(text: string, sources: CitationSource[]): string {
+  const body = placeMarkers(
+    text,
+    sources,
+    ({ number }) => `[^${number}]`,
+    (part) => part
+  );
+  const notes = sources.map(({ number, title, url, excerpt }) => {
+    const label = !url
+      ? escapeMarkdownText(title)
+      : isWebUrl(url)
+      ? `[${escapeMarkdownText(title)}](${escapeMarkdownUrl(url)})`
+      : `${escapeMarkdownText(title)} (${escapeMarkdownText(url)})`;
+    return `[^${number}]: ${label}${excerpt ? ` — "${excerpt}"` : ""}`;
+  });
+  return notes.length > 0 ? `${body}\n\n${notes.join("\n")}` : body;
+}
+
+function formatHtml(
+  text: string,
+  sources: CitationSource[],
+  idPrefix: string
+): string {
+  const body = placeMarkers(
+    text,
+    sources,
+    ({ number }) =>
+      `<sup><a href="#${idPrefix}-${number}">[${number}]</a></sup>`,
+    escapeHtml
+  );
+  const paragraphs = body
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${paragraph.replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+  if (sources.length === 0) {
+    return paragraphs;
+  }
+
+  const items = sources.map(({ number, title, url, excerpt }) => {
+    const label = !url
+      ? escapeHtml(title)
+      : isWebUrl(url)
+      ? `<a href="${escapeHtml(url)}">${escapeHtml(title)}</a>`
+      : `${escapeHtml(title)} (${escapeHtml(url)})`;
+    const quote = excerpt
+      ? `<blockquote>${escapeHtml(excerpt)}</blockquote>`
+      : "";
+    return `<li id="${idPrefix}-${number}">${label}${quote}</li>`;
+  });
+  return `${paragraphs}\n<ol class="citations">\n${items.join("\n")}\n</ol>`;
+}
+
+function formatText(text: string, sources: CitationSource[]): string {
+  const body = placeMarkers(
+    text,
+    sources,
+    ({ number }) => `[${number}]`,
+    (part) => part
+  );
+  const notes = sources.map(
+    ({ number, title, url, excerpt }) =>
+      `[${number}] ${title}${url ? ` (${url})` : ""}${
+        excerpt ? `\n    "${excerpt}"` : ""
+      }`
+  );
+  return notes.length > 0 ? `${body}\n\nSources:\n${notes.join("\n")}` : body;
+}
+
+/**
+ * Renders a chat interaction's response with inline footnotes and a list of its sources.
+ * @param {ChatInteraction} interaction - The chat interaction.
+ * @param {CitationFormat} [format] - `markdown`, `html` or `text`. Defaults to `markdown`.
+ * @param {CitationOptions} [options] - Optional result arrays, excerpt length and HTML ID prefix.
+ * @returns {string} The rendered response.
+ */
+export function formatCitations(
+  interaction: ChatInteraction,
+  format: CitationFormat = "markdown",
+  options: CitationOptions = {}
+): string {
+  const text = interaction.model_response.content;
+  const sources = resolveSources(interaction, options);
+  switch (format) {
+    case "html":
+      return formatHtml(text, sources, options.idPrefix ?? "cite");
+    case "text":
+      return formatText(text, sources);
+    default:
+      return formatMarkdown(text, sources);
+  }
+}
@@ -0,0 +1,84 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SuperpoweredClientOptions } from "../client";
+import { SuperpoweredError } from "../errors";
+
+export interface CliProfile {
+  apiKey?: string;
+  apiSecret?: string;
+  token?: string;
+  baseURL?: string;
+}
+
+export interface CliConfig {
+  profiles: Record<string, CliProfile>;
+}
+
+/**
+ * Returns the path of the CLI config file, `~/.superpowered/config.json` unless
+ * `SUPERPOWERED_CONFIG` points elsewhere.
+ */
+export function getConfigPath(): string {
+  return (
+    process.env.SUPERPOWERED_CONFIG ??
+    path.join(os.homedir(), ".superpowered", "config.json")
+  );
+}
+
+/**
+ * Reads the CLI config file, returning an empty config if it doesn't exist.
+ */
+export function readConfig(configPath: string = getConfigPath()): CliConfig {
+  if (!fs.existsSync(configPath)) {
+    return { profiles: {} };
+  }
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  return { profiles: config.profiles ?? {} };
+}
+
+/**
+ * Resolves client options for the CLI. Environment variables take precedence over the profile:
+ * when they hold a complete set of credentials (a token, or a key and secret), the profile's
+ * credentials are ignored.
+ * @param {string} [profileName] - The profile to read. Defaults to `SUPERPOWERED_PROFILE` or `default`.
+ * @returns {SuperpoweredClientOptions} The options to create the client with.
+ */
+export function resolveClientOptions(
+  profileName?: string
+): SuperpoweredClientOptions {
+  const name = profileName ?? process.env.SUPERPOWERED_PROFILE ?? "default";
+  const profile = readConfig().profiles[name];
+  if (profileName && !profile) {
+    throw new SuperpoweredError(
+      `Profile "${profileName}" not found in ${getConfigPath()}`
+    );
+  }
+
+  const {
+    SUPERPOWERED_API_KEY: apiKey,
+    SUPERPOWERED_API_SECRET: apiSecret,
+    SUPERPOWERED_TOKEN: token,
+  } = process.env;
+  // Mixing sources would let a profile token override the environment's key and secret.
+  const credentials =
+    token || (apiKey && apiSecret)
+      ? { apiKey, apiSecret, token }
+      : {
+          apiKey: profile?.apiKey,
+          apiSecret: profile?.apiSecret,
+          token: profile?.token,
+        };
+  const options: SuperpoweredClientOptions = {
+    ...credentials,
+    baseURL: process.env.SUPERPOWERED_BASE_URL ?? profile?.baseURL,
+    userAgent: "cli",
+  };
+  if (!options.token && !(options.apiKey && options.apiSecret)) {
+    throw new SuperpoweredError(
+      "No credentials found. Set SUPERPOWERED_API_KEY and SUPERPOWERED_API_SECRET, " +
+        `or add a profile to ${getConfigPath()}`
+    );
+  }
+  return options;
+}
@@ -0,0 +1,510 @@
+#!/usr/bin/env node
+import fs from "fs";
+import readline from "readline";
+import { parseArgs } from "util";
+import { SuperpoweredApiClient } from "../node/client";
+import { SuperpoweredError } from "../errors";
+import {
+  EvaluationConfig,
+  evaluateRetrieval,
+  formatEvaluationReport,
+  parseEvaluationDataset,
+} from "../evaluation";
+import {
+  IngestionSource,
+  formatIngestionPlan,
+  planIngestion,
+} from "../ingestion";
+import { readIngestionSources } from "../node/files";
+import { SegmentLength } from "../types";
+import { resolveClientOptions } from "./config";
+import { OutputFormat, printResult } from "./output";
+
+const USAGE = `Usage: superpowered <command> [options]
+
+Knowledge bases:
+  kb list [--title-begins-with <prefix>] [--supp-id <id>] [--limit <n>]
+  kb create --title <title> [--description <text>] [--supp-id <id>] [--language-code <code>]
+  kb get <kbId>
+  kb update <kbId> [--title <title>] [--description <text>] [--supp-id <id>]
+  kb delete <kbId>
+
+Documents:
+  doc list <kbId> [--title-begins-with <prefix>] [--supp-id <id>] [--status <status>] [--limit <n>]
+  doc upload <kbId> <path...> [--glob <pattern>] [--concurrency <n>] [--update]
+             [--supp-id <id>] [--description <text>] [--link-to-source <url>] [--chunk-header <text>]
+  doc raw-text <kbId> --title <title> [--text <text> | --file <path>] [--supp-id <id>]
+  doc url <kbId> <url> [--title <title>] [--supp-id <id>]
+  doc ingest <kbId> <path...> [--glob <pattern>] [--split-level <n>] [--min-split-length <n>]
+             [--supp-id-key <key>] [--concurrency <n>] [--dry-run]
+  doc get <kbId> <docId> [--content]
+  doc delete <kbId> <docId>
+
+Querying and chat:
+  query <kbId,...> <query...> [--top-k <n>] [--summarize] [--use-rse] [--segment-length <length>]
+  chat <threadId>
+
+Evaluation:
+  eval <dataset.json> [--configs <configs.json>] [--k <n>] [--concurrency <n>]
+       [--report <path.md|path.json>]
+
+Options:
+  --output, -o <format>  Output format: table (default), json or ndjson
+  --profile <name>       Profile from ~/.superpowered/config.json
+  --help, -h             Show this help
+
+Credentials are read from SUPERPOWERED_API_KEY and SUPERPOWERED_API_SECRET
+(or SUPERPOWERED_TOKEN), falling back to the selected profile.`;
+
+const OPTIONS = {
+  output: { type: "string", short: "o", default: "table" },
+  profile: { type: "string" },
+  help: { type: "boolean", short: "h" },
+  "title-begins-with": { type: "string" },
+  "supp-id": { type: "string" },
+  status: { type: "string" },
+  limit: { type: "string" },
+  title: { type: "string" },
+  description: { type: "string" },
+  "language-code": { type: "string", default: "en" },
+  glob: { type: "string" },
+  concurrency: { type: "string" },
+  update: { type: "boolean" },
+  "link-to-source": { type: "string" },
+  "chunk-header": { type: "string" },
+  file: { type: "string" },
+  text: { type: "string" },
+  content: { type: "boolean" },
+  "top-k": { type: "string" },
+  summarize: { type: "boolean" },
+  "use-rse": { type: "boolean" },
+  "segment-length": { type: "string" },
+  configs: { type: "string" },
+  k: { type: "string" },
+  report: { type: "string" },
+  "split-level": { type: "string" },
+  "min-split-length": { type: "string" },
+  "supp-id-key": { type: "string" },
+  "dry-run": { type: "boolean" },
+} as const;
+
+type ParsedOptions = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS }>
+>["values"];
+
+const KB_COLUMNS = ["id", "title", "document_count", "supp_id", "created_on"];
+const DOC_COLUMNS = [
+  "id",
+  "title",
+  "file_name",
+  "vectorization_status",
+  "supp_id",
+];
+
+function toNumber(value?: string): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new SuperpoweredError(`Missing required argument <${name}>`);
+  }
+  return value;
+}
+
+async function runKnowledgeBaseCommand(
+  client: SuperpoweredApiClient,
+  [action, kbId]: string[],
+  options: ParsedOptions,
+  output: OutputFormat
+): Promise<void> {
+  switch (action) {
+    case "list": {
+      const knowledgeBases = await client.knowledgeBase
+        .iterateKnowledgeBases(
+          {
+            title_begins_with: options["title-begins-with"],
+            supp_id: options["supp-id"],
+          },
+          { maxItems: toNumber(options.limit) }
+        )
+        .collectAll();
+      return printResult(knowledgeBases, output, KB_COLUMNS);
+    }
+    case "create":
+      return printResult(
+        await client.knowledgeBase.createKnowledgeBase({
+          title: requireArg(options.title, "--title"),
+          description: options.description,
+          supp_id: options["supp-id"],
+          language_code: options["language-code"]!,
+          type: "unstructured",
+        }),
+        output
+      );
+    case "get":
+      return printResult(
+        await client.knowledgeBase.getKnowledgeBase(requireArg(kbId, "kbId")),
+        output
+      );
+    case "update":
+      return printResult(
+        await client.knowledgeBase.updateKnowledgeBase(
+          requireArg(kbId, "kbId"),
+          {
+            title: options.title,
+            description: options.description,
+            supp_id: options["supp-id"],
+          }
+        ),
+        output
+      );
+    case "delete":
+      await client.knowledgeBase.deleteKnowledgeBase(requireArg(kbId, "kbId"));
+      return printResult({ deleted: kbId }, output);
+    default:
+      throw new SuperpoweredError(`Unknown kb command "${action ?? ""}"`);
+  }
+}
+
+async function runDocumentCommand(
+  client: SuperpoweredApiClient,
+  [action, kbId, ...rest]: string[],
+  options: ParsedOptions,
+  output: OutputFormat
+): Promise<void> {
+  const knowledgeBaseId = requireArg(kbId, "kbId");
+
+  switch (action) {
+    case "list": {
+      const documents = await client.document
+        .iterateDocuments(
+          knowledgeBaseId,
+          {
+            title_begins_with: options["title-begins-with"],
+            supp_id: options["supp-id"],
+            status: options.status,
+          },
+          { maxItems: toNumber(options.limit) }
+        )
+        .collectAll();
+      return printResult(documents, output, DOC_COLUMNS);
+    }
+    case "upload": {
+      if (rest.length === 0) {
+        throw new SuperpoweredError("Missing required argument <path>");
+      }
+      const uploadOptions = {
+        suppId: options["supp-id"],
+        description: options.description,
+        linkToSource: options["link-to-source"],
+        chunkHeader: options["chunk-header"],
+        isUpdate: options.update,
+      };
+      const results = [];
+      for (const target of rest) {
+        if (fs.statSync(target).isDirectory()) {
+          results.push(
+            ...(await client.document.uploadDirectory(knowledgeBaseId, target, {
+              ...uploadOptions,
+              glob: options.glob,
+              concurrency: toNumber(options.concurrency),
+            }))
+          );
+        } else {
+          results.push({
+            path: target,
+            ...(await client.document.uploadFile(
+              knowledgeBaseId,
+              target,
+              uploadOptions
+            )),
+          });
+        }
+      }
+      return printResult(
+        results.map(({ path, success, existingDocumentId, errorMessage }) => ({
+          path,
+          success,
+          existingDocumentId,
+          errorMessage,
+        })),
+        output
+      );
+    }
+    case "raw-text": {
+      const title = requireArg(options.title, "--title");
+      if (
+        options.text === undefined &&
+        options.file === undefined &&
+        process.stdin.isTTY
+      ) {
+        throw new SuperpoweredError(
+          "Pass the content with --text, --file or on stdin"
+        );
+      }
+      const content =
+        options.text ?? fs.readFileSync(options.file ?? 0, "utf8");
+      return printResult(
+        await client.document.createDocumentWithRawText(knowledgeBaseId, {
+          content,
+          title,
+          supp_id: options["supp-id"],
+          description: options.description,
+          link_to_source: options["link-to-source"],
+          chunk_header: options["chunk-header"],
+        }),
+        output
+      );
+    }
+    case "url":
+      return printResult(
+        await client.document.createDocumentFromUrl(knowledgeBaseId, {
+          url: requireArg(rest[0], "url"),
+          title: options.title,
+          supp_id: options["supp-id"],
+          description: options.description,
+          chunk_header: options["chunk-header"],
+        }),
+        output
+      );
+    case "ingest": {
+      if (rest.length === 0) {
+        throw new SuperpoweredError("Missing required argument <path>");
+      }
+      const sources: IngestionSource[] = [];
+      for (const target of rest) {
+        if (fs.statSync(target).isDirectory()) {
+          sources.push(...(await readIngestionSources(target, options.glob)));
+        } else {
+          sources.push({
+            path: target,
+            content: fs.readFileSync(target, "utf8"),
+          });
+        }
+      }
+      const splitLevel = toNumber(options["split-level"]);
+      const plan = planIngestion(sources, {
+        split:
+          splitLevel === undefined
+            ? undefined
+            : {
+                headingLevel: splitLevel,
+                minLength: toNumber(options["min-split-length"]),
+              },
+        suppIdKey: options["supp-id-key"],
+      });
+      if (options["dry-run"]) {
+        return output === "table"
+          ? console.log(formatIngestionPlan(plan))
+          : printResult(plan, output);
+      }
+      const { results } = await client.document.ingestDocuments(
+        knowledgeBaseId,
+        plan,
+        { concurrency: toNumber(options.concurrency) }
+      );
+      return printResult(
+        results.map(({ item, success, result, errorMessage }) => ({
+          source: item.source,
+          section: item.section,
+          title: item.title,
+          success,
+          documentId: result?.id,
+          errorMessage,
+        })),
+        output
+      );
+    }
+    case "get": {
+      const document = await client.document.getDocument(
+        knowledgeBaseId,
+        requireArg(rest[0], "docId"),
+        options.content
+      );
+      if (output !== "table" || !options.content) {
+        return printResult(document, output);
+      }
+      // Table cells are truncated, so print the content in full below the table.
+      const { content, ...metadata } = document;
+      printResult(metadata, output);
+      console.log(`\n${content ?? ""}`);
+      return;
+    }
+    case "delete":
+      await client.document.deleteDocument(
+        knowledgeBaseId,
+        requireArg(rest[0], "docId")
+      );
+      return printResult({ deleted: rest[0] }, output);
+    default:
+      throw new SuperpoweredError(`Unknown doc command "${action ?? ""}"`);
+  }
+}
+
+async function runQueryCommand(
+  client: SuperpoweredApiClient,
+  [kbIds, ...words]: string[],
+  options: ParsedOptions,
+  output: OutputFormat
+): Promise<void> {
+  const response = await client.knowledgeBase.queryKnowledgeBases({
+    query: requireArg(words.join(" "), "query"),
+    knowledge_base_ids: requireArg(kbIds, "kbId,...").split(","),
+    top_k: toNumber(options["top-k"]),
+    summarize_results: options.summarize,
+    use_rse: options["use-rse"],
+    segment_length: options["segment-length"] as SegmentLength | undefined,
+  });
+
+  if (output !== "table") {
+    return printResult(response, output);
+  }
+  if ("summary" in response) {
+    console.log(`${response.summary.content}\n`);
+  }
+  printResult(
+    response.ranked_results.map((result, index) => ({
+      rank: index + 1,
+      score: result.reranker_score.toFixed(3),
+      title: result.metadata.document.title,
+      content: result.content,
+    })),
+    output
+  );
+}
+
+async function runEvalCommand(
+  client: SuperpoweredApiClient,
+  datasetPath: string,
+  options: ParsedOptions,
+  output: OutputFormat
+): Promise<void> {
+  const dataset = parseEvaluationDataset(fs.readFileSync(datasetPath, "utf8"));
+  const configs: EvaluationConfig[] = options.configs
+    ? JSON.parse(fs.readFileSync(options.configs, "utf8"))
+    : [{ name: "default", params: {} }];
+
+  const report = await evaluateRetrieval(
+    client.knowledgeBase,
+    dataset,
+    configs,
+    {
+      k: toNumber(options.k),
+      concurrency: toNumber(options.concurrency),
+      onProgress: ({ config, completed, total }) => {
+        if (output === "table") {
+          process.stderr.write(`\r${config}: ${completed}/${total}`);
+          if (completed === total) {
+            process.stderr.write("\n");
+          }
+        }
+      },
+    }
+  );
+  if (options.report) {
+    fs.writeFileSync(
+      options.report,
+      formatEvaluationReport(
+        report,
+        options.report.endsWith(".md") ? "markdown" : "json"
+      )
+    );
+  }
+
+  if (output !== "table") {
+    return printResult(report, output);
+  }
+  printResult(
+    report.configs.map(({ name, metrics, failed }) => ({
+      config: name,
+      hit_rate: metrics.hitRate.toFixed(3),
+      mrr: metrics.mrr.toFixed(3),
+      ndcg: metrics.ndcg.toFixed(3),
+      failed,
+    })),
+    output
+  );
+}
+
+async function runChatCommand(
+  client: SuperpoweredApiClient,
+  threadId: string
+): Promise<void> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: "> ",
+  });
+  console.log(`Chatting in thread ${threadId}. Press Ctrl+D to exit.`);
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = line.trim();
+    if (input) {
+      for await (const event of client.chat.streamChatThreadResponse(threadId, {
+        input,
+      })) {
+        if (event.type === "text_delta") {
+          process.stdout.write(event.delta);
+        }
+      }
+      process.stdout.write("\n");
+    }
+    rl.prompt();
+  }
+}
+
+/**
+ * Runs the CLI with the given arguments.
+ * @param {string[]} argv - The arguments, without the node executable and script path.
+ */
+export async function main(argv: string[]): Promise<void> {
+  const { values: options, positionals } = parseArgs({
+    args: argv,
+    options: OPTIONS,
+    allowPositionals: true,
+  });
+  const [command, ...args] = positionals;
+
+  if (options.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const output = options.output as OutputFormat;
+  if (["table", "json", "ndjson"].indexOf(output) === -1) {
+    throw new SuperpoweredError(`Unknown output format "${output}"`);
+  }
+
+  const client = new SuperpoweredApiClient(
+    resolveClientOptions(options.profile)
+  );
+
+  switch (command) {
+    case "kb":
+      return runKnowledgeBaseCommand(client, args, options, output);
+    case "doc":
+      return runDocumentCommand(client, args, options, output);
+    case "query":
+      return runQueryCommand(client, args, options, output);
+    case "chat":
+      return runChatCommand(client, requireArg(args[0], "threadId"));
+    case "eval":
+      return runEvalCommand(
+        client,
+        requireArg(args[0], "dataset.json"),
+        options,
+        output
+      );
+    default:
+      throw new SuperpoweredError(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,88 @@
+export type OutputFormat = "table" | "json" | "ndjson";
+
+const MAX_CELL_WIDTH = 60;
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  const singleLine = text.replace(/\s+/g, " ");
+  return singleLine.length > MAX_CELL_WIDTH
+    ? `${singleLine.slice(0, MAX_CELL_WIDTH - 1)}…`
+    : singleLine;
+}
+
+/**
+ * Renders rows as an aligned plain-text table.
+ * @param {Record<string, unknown>[]} rows - The rows to render.
+ * @param {string[]} [columns] - The columns to show. Defaults to every key of the first row.
+ * @returns {string} The rendered table.
+ */
+export function formatTable(
+  rows: Record<string, unknown>[],
+  columns: string[] = Object.keys(rows[0] ?? {})
+): string {
+  if (rows.length === 0) {
+    return "(no results)";
+  }
+
+  const cells = rows.map((row) =>
+    columns.map((column) => formatCell(row[column]))
+  );
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...cells.map((row) => row[index].length))
+  );
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, index) => cell + " ".repeat(widths[index] - cell.length))
+      .join("  ")
+      .replace(/\s+$/, "");
+
+  return [
+    formatRow(columns),
+    formatRow(widths.map((width) => "-".repeat(width))),
+    ...cells.map(formatRow),
+  ].join("\n");
+}
+
+/**
+ * Prints a command result in the selected format. Lists are printed one item per row
+ * (table) or line (NDJSON); single objects as a two-column key/value table.
+ * @param {unknown} data - The result to print.
+ * @param {OutputFormat} format - The output format.
+ * @param {string[]} [columns] - The table columns for lists.
+ */
+export function printResult(
+  data: unknown,
+  format: OutputFormat,
+  columns?: string[]
+): void {
+  if (format === "json") {
+    console.log(JSON.stringify(data, null, 2));
+    return;
+  }
+  if (format === "ndjson") {
+    for (const item of Array.isArray(data) ? data : [data]) {
+      console.log(JSON.stringify(item));
+    }
+    return;
+  }
+
+  if (Array.isArray(data)) {
+    console.log(formatTable(data, columns));
+  } else if (typeof data === "object" && data !== null) {
+    console.log(
+      formatTable(
+        Object.keys(data).map((key) => ({
+          key,
+          value: (data as Record<string, unknown>)[key],
+        })),
+        ["key", "value"]
+      )
+    );
+  } else if (data !== undefined) {
+    console.log(String(data));
+  }
+}
@@ -1,33 +1,213 @@
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosAdapter, AxiosInstance } from "axios";
 import { KnowledgeBaseAPI } from "./knowledgeBases";
 import { DocumentAPI } from "./documents";
 import { ChatAPI } from "./chat";
+import { JobAPI } from "./jobs";
+import { QueryCache, QueryCacheOptions } from "./cache";
+import { mapAxiosError } from "./errors";
+import { ClientHooks, attachHooks, runRetryHooks } from "./hooks";
+import {
+  ResolvedRetryOptions,
+  RetryOptions,
+  attachRetryInterceptor,
+  resolveRetryOptions,
+} from "./retry";
+import { ValidationMode, attachValidationInterceptor } from "./schemas";
+import { encodeBasicAuth } from "./utils";
+import { SDK_VERSION } from "./version";
+
+const DEFAULT_BASE_URL = "https://api.superpowered.ai/v1";
+
+export type SuperpoweredCredentials =
+  | { apiKey: string; apiSecret: string }
+  | { token: string };
+
+export interface SuperpoweredClientOptions {
+  /** The API key, used as the Basic auth username. */
+  apiKey?: string;
+  /** The API secret, used as the Basic auth password. */
+  apiSecret?: string;
+  /** A pre-encoded Basic auth token (base64 of `key:secret`). */
+  token?: string;
+  /**
+   * Resolves credentials before every request, for secrets that rotate.
+   * Takes precedence over `apiKey`/`apiSecret` and `token`.
+   */
+  credentials?: () =>
+    | SuperpoweredCredentials
+    | Promise<SuperpoweredCredentials>;
+  /** The API base URL. Defaults to `https://api.superpowered.ai/v1`. */
+  baseURL?: string;
+  /** Timeout applied to each request, in milliseconds. */
+  timeout?: number;
+  /** Appended to the SDK's `User-Agent` header. */
+  userAgent?: string;
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>;
+  /** Custom axios adapter, e.g. to route requests to a local mock server. */
+  adapter?: AxiosAdapter;
+  /**
+   * Axios instance whose defaults (adapter, base URL, headers, timeout) the client starts
+   * from. The client copies them into an instance of its own, so the given instance is not
+   * modified and its interceptors are not used.
+   */
+  axiosInstance?: AxiosInstance;
+  /** Retry behavior for failed requests. Pass `false` to disable retries. */
+  retry?: RetryOptions | false;
+  /**
+   * Checks responses against the SDK's schemas. `"strict"` throws `ResponseValidationError` on
+   * mismatches and drops unknown fields, `"lenient"` warns and returns responses unchanged.
+   * Defaults to `"off"`.
+   */
+  validation?: ValidationMode;
+  /** Receives validation warnings in lenient mode. Defaults to `console.warn`. */
+  onValidationWarning?: (message: string) => void;
+  /** Hooks called around every request, e.g. `createDebugLogger()`. */
+  hooks?: ClientHooks | ClientHooks[];
+  /** Caches knowledge base query responses. Pass a `QueryCache` to share one between clients. */
+  cache?: QueryCache | QueryCacheOptions;
+}
+
+function toAuthorizationHeader(credentials: SuperpoweredCredentials): string {
+  return "token" in credentials
+    ? `Basic ${credentials.token}`
+    : `Basic ${encodeBasicAuth(credentials.apiKey, credentials.apiSecret)}`;
+}
 
 class SuperpoweredApiClient {
   private axiosInstance: AxiosInstance;
   public knowledgeBase: KnowledgeBaseAPI;
   public document: DocumentAPI;
   public chat: ChatAPI;
+  public job: JobAPI;
+  /** The query cache, if the `cache` option was set. */
+  public cache?: QueryCache;
 
+  /**
+   * Creates a client from an options object.
+   * @param {SuperpoweredClientOptions} options - The client options, including credentials.
+   */
+  constructor(options: SuperpoweredClientOptions);
+  /**
+   * Creates a client authenticated with an API key and secret.
+   * @param {string} username - The API key.
+   * @param {string} password - The API secret.
+   * @param {string} [baseURL] - The API base URL.
+   * @param {SuperpoweredClientOptions} [options] - Additional client options.
+   */
   constructor(
     username: string,
     password: string,
-    baseURL: string = "https://api.superpowered.ai/v1"
+    baseURL?: string,
+    options?: SuperpoweredClientOptions
+  );
+  constructor(
+    usernameOrOptions: string | SuperpoweredClientOptions,
+    password?: string,
+    baseURL?: string,
+    options: SuperpoweredClientOptions = {}
   ) {
-    this.axiosInstance = axios.create({
-      baseURL,
-      headers: {
-        Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString(
-          "base64"
-        )}`,
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      },
+    if (typeof usernameOrOptions === "string") {
+      options = {
+        ...options,
+        apiKey: usernameOrOptions,
+        apiSecret: password,
+        baseURL: baseURL ?? options.baseURL,
+      };
+    } else {
+      options = usernameOrOptions;
+    }
+
+    const retryOptions = resolveRetryOptions(options.retry);
+    const userAgent = `superpowered-ts-sdk/${SDK_VERSION}${
+      options.userAgent ? ` ${options.userAgent}` : ""
+    }`;
+
+    this.axiosInstance = axios.create(options.axiosInstance?.defaults);
+    const { defaults } = this.axiosInstance;
+    defaults.baseURL = options.baseURL ?? defaults.baseURL ?? DEFAULT_BASE_URL;
+    defaults.timeout = options.timeout ?? defaults.timeout;
+    defaults.adapter = options.adapter ?? defaults.adapter;
+    Object.assign(defaults.headers.common, {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      "User-Agent": userAgent,
+      ...options.headers,
     });
 
-    this.knowledgeBase = new KnowledgeBaseAPI(this.axiosInstance);
-    this.document = new DocumentAPI(this.axiosInstance);
-    this.chat = new ChatAPI(this.axiosInstance);
+    const { credentials, apiKey, apiSecret, token } = options;
+    if (token || (apiKey && apiSecret)) {
+      defaults.headers.common.Authorization = toAuthorizationHeader(
+        token ? { token } : { apiKey: apiKey!, apiSecret: apiSecret! }
+      );
+    }
+    const hooks = options.hooks
+      ? ([] as ClientHooks[]).concat(options.hooks)
+      : [];
+    attachRetryInterceptor(
+      this.axiosInstance,
+      retryOptions,
+      hooks.length > 0
+        ? (error, delay) => runRetryHooks(hooks, error, delay)
+        : undefined
+    );
+    if (hooks.length > 0) {
+      attachHooks(this.axiosInstance, hooks);
+    }
+    // Request interceptors run in reverse order, so credentials are resolved before the hooks run.
+    if (credentials) {
+      this.axiosInstance.interceptors.request.use(async (config) => {
+        config.headers.Authorization = toAuthorizationHeader(
+          await credentials()
+        );
+        return config;
+      });
+    }
+    this.axiosInstance.interceptors.response.use(undefined, (error) =>
+      Promise.reject(mapAxiosError(error))
+    );
+    if (options.validation && options.validation !== "off") {
+      attachValidationInterceptor(
+        this.axiosInstance,
+        options.validation,
+        options.onValidationWarning
+      );
+    }
+
+    if (options.cache) {
+      this.cache =
+        options.cache instanceof QueryCache
+          ? options.cache
+          : new QueryCache(options.cache);
+    }
+    this.knowledgeBase = new KnowledgeBaseAPI(this.axiosInstance, this.cache);
+    // Signed upload URLs point at storage, so they get a separate instance without the API's
+    // base URL and credentials, sharing only the transport settings.
+    this.document = this.createDocumentAPI(
+      this.axiosInstance,
+      retryOptions,
+      axios.create({ adapter: defaults.adapter, timeout: defaults.timeout }),
+      this.cache
+    );
+    this.job = new JobAPI(this.axiosInstance);
+    this.chat = new ChatAPI(this.axiosInstance, this.job);
+  }
+
+  /**
+   * Creates the document API. The Node client overrides it to add file system uploads.
+   */
+  protected createDocumentAPI(
+    axiosInstance: AxiosInstance,
+    retryOptions: ResolvedRetryOptions,
+    uploadAxiosInstance: AxiosInstance,
+    queryCache?: QueryCache
+  ): DocumentAPI {
+    return new DocumentAPI(
+      axiosInstance,
+      retryOptions,
+      uploadAxiosInstance,
+      queryCache
+    );
   }
 }
 
@@ -0,0 +1,163 @@
+import type { ChatAPI } from "./chat";
+import { getCitations, getWebCitations } from "./citations";
+import { JobAPI, WaitForJobOptions, isAsyncJobResponse } from "./jobs";
+import {
+  ChatInteraction,
+  ChatResponse,
+  ChatThread,
+  ChatThreadBody,
+  ChatThreadDefaultOptions,
+  RankedResult,
+  WebSearchResult,
+} from "./types";
+import { throwIfAborted } from "./utils";
+
+export interface ConversationOptions {
+  /** The ID of an existing thread to continue instead of creating one on the first `send()`. */
+  threadId?: string;
+  /** The title of the thread to create. */
+  title?: string;
+  /** The supplementary ID of the thread to create. */
+  supp_id?: string;
+  /** Default options of the thread to create. The API fills in the ones omitted. */
+  defaultOptions?: Partial<ChatThreadDefaultOptions>;
+  /** Polling options used when a response is returned as an async job. */
+  jobOptions?: Omit<WaitForJobOptions, "signal">;
+}
+
+export interface ConversationReply {
+  /** The model's answer. */
+  content: string;
+  /** The interaction recorded in the thread. */
+  interaction: ChatInteraction;
+  /** The ranked results cited by the answer. */
+  citations: RankedResult[];
+  /** The web search results cited by the answer. */
+  webCitations: WebSearchResult[];
+  /** The full chat response, including every ranked result retrieved. */
+  response: ChatResponse;
+}
+
+/**
+ * A chat thread with its history kept locally. The thread is created on the first `send()`.
+ */
+export class Conversation {
+  private threadId?: string;
+  private threadPromise?: Promise<string>;
+  private interactions: ChatInteraction[] = [];
+  private synced: boolean;
+
+  constructor(
+    private chat: ChatAPI,
+    private jobs: JobAPI,
+    private options: ConversationOptions = {}
+  ) {
+    this.threadId = options.threadId;
+    this.synced = !options.threadId;
+  }
+
+  /**
+   * The ID of the conversation's thread, or undefined until it is created.
+   */
+  get id(): string | undefined {
+    return this.threadId;
+  }
+
+  /**
+   * The interactions of the conversation, oldest first.
+   */
+  get history(): ChatInteraction[] {
+    return this.interactions.slice();
+  }
+
+  /**
+   * Sends a message and waits for the answer, resolving async responses.
+   * @param {string} input - The message to send.
+   * @param {Omit<ChatThreadBody, "input">} [overrides] - Options for this message only, e.g. `model` or `knowledge_base_ids`.
+   * @param {Object} [options] - Optional parameters.
+   * @param {AbortSignal} [options.signal] - Signal that cancels waiting for an async response.
+   * @returns {Promise<ConversationReply>} The answer and its citations.
+   */
+  async send(
+    input: string,
+    overrides: Omit<ChatThreadBody, "input"> = {},
+    options: { signal?: AbortSignal } = {}
+  ): Promise<ConversationReply> {
+    const { signal } = options;
+    const threadId = await this.ensureThread();
+    if (!this.synced) {
+      await this.sync();
+    }
+    throwIfAborted(signal);
+
+    const result = await this.chat.getChatThreadResponse(threadId, {
+      ...overrides,
+      input,
+    });
+    const response = isAsyncJobResponse<ChatResponse>(result)
+      ? await this.jobs.waitForChatResponse(result, {
+          ...this.options.jobOptions,
+          signal,
+        })
+      : result;
+
+    const { interaction } = response;
+    this.interactions.push(interaction);
+    return {
+      content: interaction.model_response.content,
+      interaction,
+      citations: getCitations(
+        interaction,
+        interaction.ranked_results ?? response.ranked_results
+      ),
+      webCitations: getWebCitations(interaction),
+      response,
+    };
+  }
+
+  /**
+   * Replaces the local history with the thread's interactions.
+   * @returns {Promise<ChatInteraction[]>} The interactions, oldest first.
+   */
+  async sync(): Promise<ChatInteraction[]> {
+    if (this.threadId) {
+      this.interactions = await this.chat
+        .iterateChatThreadInteractions(this.threadId, { order: "asc" })
+        .collectAll();
+    }
+    this.synced = true;
+    return this.history;
+  }
+
+  /**
+   * Gets the conversation's thread, creating it if needed.
+   * @returns {Promise<ChatThread>} The chat thread.
+   */
+  async getThread(): Promise<ChatThread> {
+    return this.chat.getChatThread(await this.ensureThread());
+  }
+
+  private ensureThread(): Promise<string> {
+    if (this.threadId) {
+      return Promise.resolve(this.threadId);
+    }
+    if (!this.threadPromise) {
+      const { title = "", supp_id, defaultOptions = {} } = this.options;
+      this.threadPromise = this.chat
+        .createChatThread({
+          title,
+          supp_id,
+          default_options: defaultOptions as ChatThreadDefaultOptions,
+        })
+        .then(
+          ({ id }) => (this.threadId = id),
+          (error) => {
+            // Let the next send() try again.
+            this.threadPromise = undefined;
+            throw error;
+          }
+        );
+    }
+    return this.threadPromise;
+  }
+}
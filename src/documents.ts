@@ -1,10 +1,231 @@
-import { AxiosInstance } from "axios";
-import { Document } from "./types";
-import crypto from "crypto";
+import { AxiosInstance, AxiosResponse } from "axios";
+import { Document, DocumentFilters, DocumentReference } from "./types";
+import { PageIterator, PaginationOptions } from "./pagination";
 import axios from "axios";
+import {
+  DocumentAlreadyExistsError,
+  DocumentReadyTimeoutError,
+  DocumentVectorizationError,
+  NotFoundError,
+  mapAxiosError,
+} from "./errors";
+import {
+  ResolvedRetryOptions,
+  isRetryableError,
+  resolveRetryOptions,
+  withRetry,
+} from "./retry";
+import { QueryCache } from "./cache";
+import type { IngestionDocument, IngestionPlan } from "./ingestion";
+import { Md5 } from "./md5";
+import { mapWithConcurrency, sleep, toBase64, toBytes } from "./utils";
+
+export interface UploadDocumentOptions {
+  linkToSource?: string;
+  suppId?: string;
+  description?: string;
+  isUpdate?: boolean;
+  chunkHeader?: string;
+  autoContext?: boolean;
+  /**
+   * Looks up the uploaded document's ID after the upload, which the upload response does
+   * not include. This lists the knowledge base's documents (filtered by `suppId` if set),
+   * so it costs extra requests. Defaults to false.
+   */
+  resolveDocumentId?: boolean;
+}
+
+export interface UploadDocumentResult {
+  success: boolean;
+  /** The ID of the uploaded document, if `resolveDocumentId` was set and it was found. */
+  documentId?: string;
+  existingDocumentId?: string;
+  errorMessage?: string;
+}
+
+export interface WaitForDocumentOptions {
+  /** Delay between polls, in milliseconds. Defaults to 2000. */
+  pollInterval?: number;
+  /** Overall time to wait before giving up, in milliseconds. Defaults to 600000. */
+  timeout?: number;
+  /** Signal that cancels the wait. */
+  signal?: AbortSignal;
+}
+
+export interface BulkOptions<T, R> {
+  /** Maximum number of concurrent requests. Defaults to 4. */
+  concurrency?: number;
+  /**
+   * Stop starting new items after the first failure. Requests in flight still finish, and the
+   * remaining items are reported as skipped. Defaults to false, which continues past errors.
+   */
+  failFast?: boolean;
+  /** Called after each item succeeds or fails. */
+  onProgress?: (progress: BulkProgress<T, R>) => void;
+}
+
+export interface BulkItemResult<T, R> {
+  /** The position of the item in the input. */
+  index: number;
+  item: T;
+  success: boolean;
+  /** The value returned for the item, if it succeeded. */
+  result?: R;
+  /** True if the item was not attempted because an earlier item failed in fail-fast mode. */
+  skipped?: boolean;
+  errorMessage?: string;
+  /** The error thrown for the item, if any. */
+  error?: unknown;
+}
+
+export interface BulkProgress<T, R> {
+  /** How many items have finished, including failures. */
+  completed: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** The item that just finished. */
+  latest: BulkItemResult<T, R>;
+}
+
+export interface BulkResult<T, R> {
+  /** The result for each item, in input order. */
+  results: BulkItemResult<T, R>[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export type BulkDocumentUpdate = { documentId: string } & Partial<
+  Pick<Document, "title" | "supp_id" | "description" | "link_to_source">
+>;
+
+export type BulkDocumentSpec =
+  | Parameters<DocumentAPI["createDocumentWithRawText"]>[1]
+  | Parameters<DocumentAPI["createDocumentFromUrl"]>[1];
+
+/**
+ * Runs an operation for each item with bounded concurrency, collecting per-item results.
+ */
+async function runBulk<T, R>(
+  items: T[],
+  options: BulkOptions<T, R>,
+  operation: (item: T) => Promise<R>
+): Promise<BulkResult<T, R>> {
+  const { concurrency = 4, failFast = false, onProgress } = options;
+  let succeeded = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  const results = await mapWithConcurrency(
+    items,
+    concurrency,
+    async (item, index): Promise<BulkItemResult<T, R>> => {
+      if (failFast && failed > 0) {
+        skipped++;
+        return { index, item, success: false, skipped: true };
+      }
+
+      let result: BulkItemResult<T, R>;
+      try {
+        result = { index, item, success: true, result: await operation(item) };
+        succeeded++;
+      } catch (error) {
+        result = {
+          index,
+          item,
+          success: false,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          error,
+        };
+        failed++;
+      }
+      onProgress?.({
+        completed: succeeded + failed,
+        total: items.length,
+        succeeded,
+        failed,
+        latest: result,
+      });
+      return result;
+    }
+  );
+  return { results, succeeded, failed, skipped };
+}
+
+type SignedFileUrlRequest = Parameters<DocumentAPI["requestSignedFileUrl"]>[1];
+
+/**
+ * Checks whether a signed URL upload failed because the URL's signature expired.
+ */
+function isExpiredSignedUrlError(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return false;
+  }
+
+  const { status, data } = error.response;
+  const body = typeof data === "string" ? data : JSON.stringify(data ?? "");
+  return (status === 400 || status === 403) && /expired/i.test(body);
+}
+
+const READY_STATUSES = ["COMPLETE", "COMPLETED"];
+const FAILED_STATUSES = ["FAILED", "ERROR"];
+
+function describeReference(reference: DocumentReference): string {
+  if (typeof reference === "string") {
+    return reference;
+  }
+  return "supp_id" in reference
+    ? `supp_id=${reference.supp_id}`
+    : `file_name=${reference.file_name}`;
+}
+
+function matchesReference(
+  document: Document,
+  reference: DocumentReference
+): boolean {
+  if (typeof reference === "string") {
+    return document.id === reference;
+  }
+  return "supp_id" in reference
+    ? document.supp_id === reference.supp_id
+    : document.file_name === reference.file_name;
+}
+
+/**
+ * Returns the most recently created document that matches the reference.
+ */
+function findLatest(
+  documents: Document[],
+  reference: DocumentReference
+): Document | undefined {
+  return documents
+    .filter((document) => matchesReference(document, reference))
+    .sort((a, b) => b.created_on - a.created_on)[0];
+}
+
+/**
+ * Returns true if the document is ready, false if it is still processing,
+ * and throws if its vectorization failed.
+ */
+function checkReady(document: Document): boolean {
+  const status = document.vectorization_status?.toUpperCase();
+  if (FAILED_STATUSES.indexOf(status) !== -1) {
+    throw new DocumentVectorizationError(
+      document.id,
+      document.vectorization_status
+    );
+  }
+  return READY_STATUSES.indexOf(status) !== -1;
+}
 
 export class DocumentAPI {
-  constructor(private axiosInstance: AxiosInstance) {}
+  constructor(
+    private axiosInstance: AxiosInstance,
+    private retryOptions: ResolvedRetryOptions = resolveRetryOptions(),
+    private uploadAxiosInstance: AxiosInstance = axios.create(),
+    private queryCache?: QueryCache
+  ) {}
 
   /**
    * Lists documents in a knowledge base.
@@ -20,11 +241,7 @@ export class DocumentAPI {
    */
   async listDocuments(
     knowledgeBaseId: string,
-    params?: {
-      title_begins_with?: string;
-      supp_id?: string;
-      status?: string;
-      link_to_source?: string;
+    params?: DocumentFilters & {
       limit?: number;
       next_page_token?: string;
     }
@@ -36,6 +253,27 @@ export class DocumentAPI {
     return response.data;
   }
 
+  /**
+   * Iterates over every document in a knowledge base, following page tokens automatically.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {DocumentFilters} [filters] - Optional filters, as accepted by `listDocuments`.
+   * @param {PaginationOptions} [options] - Optional max-items cap and page size.
+   * @returns {PageIterator<Document>} An async iterable over the matching documents.
+   */
+  iterateDocuments(
+    knowledgeBaseId: string,
+    filters?: DocumentFilters,
+    options?: PaginationOptions
+  ): PageIterator<Document> {
+    return new PageIterator(async (page) => {
+      const { documents, next_page_token } = await this.listDocuments(
+        knowledgeBaseId,
+        { ...filters, ...page }
+      );
+      return { items: documents, next_page_token };
+    }, options);
+  }
+
   /**
    * Retrieves a specific document from a knowledge base.
    * @param {string} knowledgeBaseId - The ID of the knowledge base.
@@ -75,6 +313,7 @@ export class DocumentAPI {
       `/knowledge_bases/${knowledgeBaseId}/documents/${documentId}`,
       data
     );
+    await this.invalidateQueries(knowledgeBaseId);
     return response.data;
   }
 
@@ -91,6 +330,7 @@ export class DocumentAPI {
     await this.axiosInstance.delete(
       `/knowledge_bases/${knowledgeBaseId}/documents/${documentId}`
     );
+    await this.invalidateQueries(knowledgeBaseId);
   }
 
   /**
@@ -133,77 +373,262 @@ export class DocumentAPI {
    * Uploads a document to the knowledge base.
    *
    * @param {string} knowledgeBaseId - The ID of the knowledge base.
-   * @param {Buffer} fileBuffer - The buffer of the file to be uploaded.
+   * @param {Blob | ArrayBuffer | ArrayBufferView} file - The file contents. Node `Buffer`s are accepted too.
    * @param {string} fileName - The name of the file to be uploaded.
-   * @param {Object} [options] - Optional parameters.
+   * @param {UploadDocumentOptions} [options] - Optional parameters.
    * @param {string} [options.linkToSource] - Link to the source of the document.
    * @param {string} [options.suppId] - Supplementary ID for the document.
    * @param {string} [options.description] - Description of the document.
    * @param {boolean} [options.isUpdate] - Flag indicating if the document is an update.
    * @param {string} [options.chunkHeader] - Chunk header for the document.
    * @param {boolean} [options.autoContext] - Flag indicating if auto context should be used.
-   * @returns {Promise<{ success: boolean, existingDocumentId?: string, errorMessage?: string }>} - The result of the upload operation.
+   * @param {boolean} [options.resolveDocumentId] - Look up the uploaded document's ID after the upload.
+   * @returns {Promise<UploadDocumentResult>} - The result of the upload operation.
    */
   async uploadDocument(
     knowledgeBaseId: string,
-    fileBuffer: Buffer,
+    file: Blob | ArrayBuffer | ArrayBufferView,
     fileName: string,
-    options?: {
-      linkToSource?: string;
-      suppId?: string;
-      description?: string;
-      isUpdate?: boolean;
-      chunkHeader?: string;
-      autoContext?: boolean;
+    options?: UploadDocumentOptions
+  ): Promise<UploadDocumentResult> {
+    let bytes = await toBytes(file);
+    // Axios sends a typed array's whole underlying buffer, so views into larger buffers are copied.
+    if (
+      bytes.byteOffset !== 0 ||
+      bytes.byteLength !== bytes.buffer.byteLength
+    ) {
+      bytes = bytes.slice();
     }
-  ): Promise<{
-    success: boolean;
-    existingDocumentId?: string;
-    errorMessage?: string;
-  }> {
-    const md5Hash = crypto
-      .createHash("md5")
-      .update(fileBuffer)
-      .digest("base64");
-
-    const signedUrlResponse = await this.requestSignedFileUrl(knowledgeBaseId, {
-      filename: fileName,
-      encoded_md5: md5Hash,
-      method: "PUT",
-      link_to_source: options?.linkToSource,
-      supp_id: options?.suppId,
-      description: options?.description,
-      is_update: options?.isUpdate,
-      chunk_header: options?.chunkHeader,
-      auto_context: options?.autoContext,
-    });
-
-    const signedUrl = signedUrlResponse.temporary_url;
+    const md5Hash = toBase64(new Md5().update(bytes).digest());
 
+    return this.uploadBody(
+      knowledgeBaseId,
+      fileName,
+      md5Hash,
+      () => bytes,
+      options
+    );
+  }
+
+  /**
+   * Requests a signed URL for a file and uploads its body, reporting duplicates as a failed result.
+   */
+  protected async uploadBody(
+    knowledgeBaseId: string,
+    fileName: string,
+    md5Hash: string,
+    getBody: () => unknown,
+    options?: UploadDocumentOptions,
+    headers?: Record<string, string>
+  ): Promise<UploadDocumentResult> {
     try {
-      const res = await axios.put(signedUrl, fileBuffer, {
-        headers: {
-          "Content-MD5": md5Hash,
-          "Content-Type": "application/octet-stream",
+      const res = await this.putToSignedUrl(
+        knowledgeBaseId,
+        {
+          filename: fileName,
+          encoded_md5: md5Hash,
+          method: "PUT",
+          link_to_source: options?.linkToSource,
+          supp_id: options?.suppId,
+          description: options?.description,
+          is_update: options?.isUpdate,
+          chunk_header: options?.chunkHeader,
+          auto_context: options?.autoContext,
         },
-      });
+        getBody,
+        headers
+      );
 
-      return { success: res.status === 200 };
+      if (res.status !== 200) {
+        return { success: false };
+      }
+      await this.invalidateQueries(knowledgeBaseId);
     } catch (error) {
-      if (
-        axios.isAxiosError(error) &&
-        error.response?.data?.error?.includes(
-          "already exists in knowledge base"
-        )
-      ) {
+      const mappedError = mapAxiosError(error);
+      if (mappedError instanceof DocumentAlreadyExistsError) {
         return {
           success: false,
-          existingDocumentId: error.response.data.existing_document_id,
-          errorMessage: error.response.data.error,
+          existingDocumentId: mappedError.existingDocumentId,
+          errorMessage: (mappedError.body as { error?: string })?.error,
         };
       }
 
-      throw error;
+      throw mappedError;
+    }
+
+    if (!options?.resolveDocumentId) {
+      return { success: true };
+    }
+    // The upload response has no document ID, so match the newest document with the file name.
+    const documents = await this.iterateDocuments(
+      knowledgeBaseId,
+      options.suppId ? { supp_id: options.suppId } : {}
+    ).collectAll();
+    return {
+      success: true,
+      documentId: findLatest(documents, { file_name: fileName })?.id,
+    };
+  }
+
+  /**
+   * Drops cached query responses of a knowledge base after a document write.
+   */
+  private async invalidateQueries(knowledgeBaseId: string): Promise<void> {
+    await this.queryCache?.invalidate(knowledgeBaseId);
+  }
+
+  /**
+   * Requests a signed URL and PUTs the file body to it. Transient failures are retried,
+   * and a fresh URL is requested when the previous one has expired.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {SignedFileUrlRequest} signedUrlRequest - The data for the signed URL request.
+   * @param {() => unknown} getBody - Returns the request body. Called again for every attempt.
+   * @param {Record<string, string>} [headers] - Extra headers for the PUT request.
+   * @returns {Promise<AxiosResponse>} The response of the PUT request.
+   */
+  private async putToSignedUrl(
+    knowledgeBaseId: string,
+    signedUrlRequest: SignedFileUrlRequest,
+    getBody: () => unknown,
+    headers?: Record<string, string>
+  ): Promise<AxiosResponse> {
+    let signedUrl: string | undefined;
+
+    return withRetry(
+      async () => {
+        if (!signedUrl) {
+          ({ temporary_url: signedUrl } = await this.requestSignedFileUrl(
+            knowledgeBaseId,
+            signedUrlRequest
+          ));
+        }
+
+        try {
+          return await this.uploadAxiosInstance.put(signedUrl, getBody(), {
+            headers: {
+              "Content-MD5": signedUrlRequest.encoded_md5,
+              "Content-Type": "application/octet-stream",
+              ...headers,
+            },
+          });
+        } catch (error) {
+          if (isExpiredSignedUrlError(error)) {
+            signedUrl = undefined;
+          }
+          throw error;
+        }
+      },
+      this.retryOptions,
+      (error) => isRetryableError(error) || isExpiredSignedUrlError(error)
+    );
+  }
+
+  /**
+   * Finds the most recent document matching a reference, or undefined if none exists yet.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {DocumentReference} reference - The document ID, or its `supp_id` or `file_name`.
+   * @returns {Promise<Document | undefined>} A promise that resolves to the matching document.
+   */
+  async findDocument(
+    knowledgeBaseId: string,
+    reference: DocumentReference
+  ): Promise<Document | undefined> {
+    if (typeof reference === "string") {
+      return this.getDocument(knowledgeBaseId, reference).catch((error) => {
+        if (error instanceof NotFoundError) {
+          return undefined;
+        }
+        throw error;
+      });
+    }
+
+    const documents =
+      "supp_id" in reference
+        ? await this.iterateDocuments(knowledgeBaseId, {
+            supp_id: reference.supp_id,
+          }).collectAll()
+        : await this.iterateDocuments(knowledgeBaseId).collectAll();
+    return findLatest(documents, reference);
+  }
+
+  /**
+   * Polls a document until its vectorization completes and it can be queried.
+   * Documents that don't exist yet, such as right after an upload, are waited for as well.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {DocumentReference} reference - The document ID, or its `supp_id` or `file_name`.
+   * @param {WaitForDocumentOptions} [options] - Polling options.
+   * @returns {Promise<Document>} A promise that resolves to the ready document.
+   * @throws {DocumentVectorizationError} If vectorization fails.
+   * @throws {DocumentReadyTimeoutError} If the document is not ready within `options.timeout`.
+   */
+  async waitForDocumentReady(
+    knowledgeBaseId: string,
+    reference: DocumentReference,
+    options: WaitForDocumentOptions = {}
+  ): Promise<Document> {
+    const { pollInterval = 2000, timeout = 600000, signal } = options;
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+      const document = await this.findDocument(knowledgeBaseId, reference);
+      if (document && checkReady(document)) {
+        return document;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new DocumentReadyTimeoutError(
+          [describeReference(reference)],
+          timeout
+        );
+      }
+      await sleep(Math.min(pollInterval, remaining), signal);
+    }
+  }
+
+  /**
+   * Polls many documents until all of them are ready. Each round lists the knowledge base
+   * once instead of fetching the documents one by one.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {DocumentReference[]} references - The document IDs, or their `supp_id`s or `file_name`s.
+   * @param {WaitForDocumentOptions} [options] - Polling options.
+   * @returns {Promise<Document[]>} A promise that resolves to the ready documents, in input order.
+   * @throws {DocumentVectorizationError} As soon as any document's vectorization fails.
+   * @throws {DocumentReadyTimeoutError} If some documents are not ready within `options.timeout`, listing them.
+   */
+  async waitForDocumentsReady(
+    knowledgeBaseId: string,
+    references: DocumentReference[],
+    options: WaitForDocumentOptions = {}
+  ): Promise<Document[]> {
+    const { pollInterval = 2000, timeout = 600000, signal } = options;
+    const deadline = Date.now() + timeout;
+    const ready: (Document | undefined)[] = new Array(references.length);
+
+    while (true) {
+      const documents = await this.iterateDocuments(
+        knowledgeBaseId
+      ).collectAll();
+      references.forEach((reference, index) => {
+        const document = ready[index] ?? findLatest(documents, reference);
+        if (document && checkReady(document)) {
+          ready[index] = document;
+        }
+      });
+
+      const pending = references.filter((_, index) => !ready[index]);
+      if (pending.length === 0) {
+        return ready as Document[];
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new DocumentReadyTimeoutError(
+          pending.map(describeReference),
+          timeout
+        );
+      }
+      await sleep(Math.min(pollInterval, remaining), signal);
     }
   }
 
@@ -237,6 +662,7 @@ export class DocumentAPI {
       `/knowledge_bases/${knowledgeBaseId}/documents/raw_text`,
       data
     );
+    await this.invalidateQueries(knowledgeBaseId);
     return response.data;
   }
 
@@ -274,6 +700,82 @@ export class DocumentAPI {
       `/knowledge_bases/${knowledgeBaseId}/documents/url`,
       data
     );
+    await this.invalidateQueries(knowledgeBaseId);
     return response.data;
   }
+
+  /**
+   * Deletes every document that matches the filters.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {DocumentFilters} filters - The filters selecting the documents, as for `listDocuments`. An empty object selects every document.
+   * @param {BulkOptions<Document, void>} [options] - Concurrency, fail-fast mode and progress callback.
+   * @returns {Promise<BulkResult<Document, void>>} The result for each matching document.
+   */
+  async bulkDeleteDocuments(
+    knowledgeBaseId: string,
+    filters: DocumentFilters,
+    options: BulkOptions<Document, void> = {}
+  ): Promise<BulkResult<Document, void>> {
+    const documents = await this.iterateDocuments(
+      knowledgeBaseId,
+      filters
+    ).collectAll();
+    return runBulk(documents, options, (document) =>
+      this.deleteDocument(knowledgeBaseId, document.id)
+    );
+  }
+
+  /**
+   * Updates the metadata of many documents.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {BulkDocumentUpdate[]} updates - The ID of each document and the fields to set on it.
+   * @param {BulkOptions<BulkDocumentUpdate, Document>} [options] - Concurrency, fail-fast mode and progress callback.
+   * @returns {Promise<BulkResult<BulkDocumentUpdate, Document>>} The updated document for each update.
+   */
+  async bulkUpdateDocuments(
+    knowledgeBaseId: string,
+    updates: BulkDocumentUpdate[],
+    options: BulkOptions<BulkDocumentUpdate, Document> = {}
+  ): Promise<BulkResult<BulkDocumentUpdate, Document>> {
+    return runBulk(updates, options, ({ documentId, ...data }) =>
+      this.updateDocument(knowledgeBaseId, documentId, data)
+    );
+  }
+
+  /**
+   * Creates many documents from raw text or URLs. Specs with a `url` are created with
+   * `createDocumentFromUrl`, the others with `createDocumentWithRawText`.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {BulkDocumentSpec[]} specs - The documents to create.
+   * @param {BulkOptions<BulkDocumentSpec, Document>} [options] - Concurrency, fail-fast mode and progress callback.
+   * @returns {Promise<BulkResult<BulkDocumentSpec, Document>>} The created document for each spec.
+   */
+  async bulkCreateDocuments(
+    knowledgeBaseId: string,
+    specs: BulkDocumentSpec[],
+    options: BulkOptions<BulkDocumentSpec, Document> = {}
+  ): Promise<BulkResult<BulkDocumentSpec, Document>> {
+    return runBulk(specs, options, (spec) =>
+      "url" in spec
+        ? this.createDocumentFromUrl(knowledgeBaseId, spec)
+        : this.createDocumentWithRawText(knowledgeBaseId, spec)
+    );
+  }
+
+  /**
+   * Creates the raw-text documents of an ingestion plan from `planIngestion`.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {IngestionPlan} plan - The plan to create.
+   * @param {BulkOptions<IngestionDocument, Document>} [options] - Concurrency, fail-fast mode and progress callback.
+   * @returns {Promise<BulkResult<IngestionDocument, Document>>} The created document for each planned document.
+   */
+  async ingestDocuments(
+    knowledgeBaseId: string,
+    plan: IngestionPlan,
+    options: BulkOptions<IngestionDocument, Document> = {}
+  ): Promise<BulkResult<IngestionDocument, Document>> {
+    return runBulk(plan.documents, options, ({ source, section, ...data }) =>
+      this.createDocumentWithRawText(knowledgeBaseId, data)
+    );
+  }
 }
@@ -0,0 +1,309 @@
+import axios from "axios";
+import { ValidationIssue } from "./schemas";
+
+/**
+ * Base class for every error thrown by the SDK.
+ */
+export class SuperpoweredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through an `AbortSignal`.
+ */
+export class RequestAbortedError extends SuperpoweredError {
+  constructor(message: string = "The operation was aborted") {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when an async job finishes with a failed status.
+ */
+export class JobFailedError extends SuperpoweredError {
+  constructor(public readonly jobId: string, public readonly status: string) {
+    super(`Job ${jobId} finished with status ${status}`);
+  }
+}
+
+/**
+ * Thrown when an async job does not complete within the allotted time.
+ */
+export class JobTimeoutError extends SuperpoweredError {
+  constructor(public readonly jobId: string, public readonly timeout: number) {
+    super(`Job ${jobId} did not complete within ${timeout}ms`);
+  }
+}
+
+/**
+ * Thrown when an async job passes its `expires` time before completing.
+ */
+export class JobExpiredError extends SuperpoweredError {
+  constructor(public readonly jobId: string, public readonly expires: number) {
+    super(`Job ${jobId} expired before completing`);
+  }
+}
+
+/**
+ * Thrown when a document's vectorization finishes with a failed status.
+ */
+export class DocumentVectorizationError extends SuperpoweredError {
+  constructor(
+    public readonly documentId: string,
+    public readonly status: string
+  ) {
+    super(
+      `Vectorization of document ${documentId} finished with status ${status}`
+    );
+  }
+}
+
+/**
+ * Thrown when documents are not ready within the allotted time.
+ */
+export class DocumentReadyTimeoutError extends SuperpoweredError {
+  constructor(
+    public readonly pending: string[],
+    public readonly timeout: number
+  ) {
+    super(`Documents ${pending.join(", ")} were not ready within ${timeout}ms`);
+  }
+}
+
+/**
+ * Thrown in strict validation mode when an API response does not match the SDK's schema.
+ */
+export class ResponseValidationError extends SuperpoweredError {
+  /** Where the first mismatch is, e.g. `documents[3].created_on`. */
+  public readonly path: string;
+
+  constructor(
+    public readonly source: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Response from ${source} did not match the schema at ${
+        issues[0].path || "(root)"
+      }: ${issues[0].message}${
+        issues.length > 1 ? ` (and ${issues.length - 1} more)` : ""
+      }`
+    );
+    this.path = issues[0].path;
+  }
+}
+
+/**
+ * Thrown when a chat transcript cannot be parsed.
+ */
+export class InvalidTranscriptError extends SuperpoweredError {}
+
+/**
+ * Thrown when a retrieval evaluation dataset cannot be parsed.
+ */
+export class InvalidEvaluationDatasetError extends SuperpoweredError {}
+
+/**
+ * Thrown when a directory is not a knowledge base backup.
+ */
+export class InvalidBackupError extends SuperpoweredError {
+  constructor(public readonly directory: string, reason: string) {
+    super(`${directory} is not a knowledge base backup: ${reason}`);
+  }
+}
+
+export interface ApiErrorDetails {
+  /** The HTTP status code, if a response was received. */
+  status?: number;
+  /** The HTTP method of the failed request. */
+  method?: string;
+  /** The path of the failed request, without query string. */
+  path?: string;
+  /** The error body returned by the server. */
+  body?: unknown;
+  /** The underlying error. */
+  cause?: unknown;
+}
+
+/**
+ * Thrown when a request to the API fails. More specific subclasses are used for common statuses.
+ */
+export class SuperpoweredApiError extends SuperpoweredError {
+  public readonly status?: number;
+  public readonly method?: string;
+  public readonly path?: string;
+  public readonly body?: unknown;
+  public readonly cause?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.status = details.status;
+    this.method = details.method;
+    this.path = details.path;
+    this.body = details.body;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Thrown when the API rejects the credentials (401) or denies access (403).
+ */
+export class SuperpoweredAuthError extends SuperpoweredApiError {}
+
+/**
+ * Thrown when the requested resource does not exist (404).
+ */
+export class NotFoundError extends SuperpoweredApiError {}
+
+/**
+ * Thrown when the API rejects the request body or parameters (400, 422).
+ */
+export class ValidationError extends SuperpoweredApiError {}
+
+/**
+ * Thrown when the API responds with a 5xx status.
+ */
+export class ServerError extends SuperpoweredApiError {}
+
+/**
+ * Thrown when the API rate limits the request (429).
+ */
+export class RateLimitError extends SuperpoweredApiError {
+  /** How long the server asked to wait before retrying, in milliseconds. */
+  public readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    details: ApiErrorDetails & { retryAfter?: number }
+  ) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Thrown when an uploaded document already exists in the knowledge base.
+ */
+export class DocumentAlreadyExistsError extends SuperpoweredApiError {
+  /** The ID of the document that already exists. */
+  public readonly existingDocumentId?: string;
+
+  constructor(
+    message: string,
+    details: ApiErrorDetails & { existingDocumentId?: string }
+  ) {
+    super(message, details);
+    this.existingDocumentId = details.existingDocumentId;
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ * @param {unknown} value - The header value.
+ * @returns {number | undefined} The delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getServerMessage(body: unknown): string | undefined {
+  if (typeof body === "string") {
+    return body || undefined;
+  }
+  if (typeof body === "object" && body !== null) {
+    const { error, message, detail } = body as Record<string, unknown>;
+    const serverMessage = error ?? message ?? detail;
+    if (typeof serverMessage === "string") {
+      return serverMessage;
+    }
+    if (serverMessage !== undefined) {
+      return JSON.stringify(serverMessage);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the path of a request URL without its query string.
+ * @param {string} [url] - The request URL or path.
+ * @returns {string | undefined} The path.
+ */
+export function getRequestPath(url?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  // Strip the query string so signed URLs don't leak their signature into error messages.
+  return /^https?:\/\//.test(url) ? new URL(url).pathname : url.split("?")[0];
+}
+
+/**
+ * Maps an error raised by axios to the matching `SuperpoweredError` subclass.
+ * Errors that are already `SuperpoweredError`s and non-axios errors are returned unchanged.
+ * @param {unknown} error - The error to map.
+ * @returns {unknown} The mapped error.
+ */
+export function mapAxiosError(error: unknown): unknown {
+  if (error instanceof SuperpoweredError || !axios.isAxiosError(error)) {
+    return error;
+  }
+  if (axios.isCancel(error)) {
+    return new RequestAbortedError();
+  }
+
+  const status = error.response?.status;
+  const body = error.response?.data;
+  const details: ApiErrorDetails = {
+    status,
+    method: error.config?.method?.toUpperCase(),
+    path: getRequestPath(error.config?.url),
+    body,
+    cause: error,
+  };
+  const serverMessage = getServerMessage(body) ?? error.message;
+  const message = status
+    ? `${details.method} ${details.path} failed with status ${status}: ${serverMessage}`
+    : `${details.method} ${details.path} failed: ${serverMessage}`;
+
+  if (serverMessage.includes("already exists in knowledge base")) {
+    return new DocumentAlreadyExistsError(message, {
+      ...details,
+      existingDocumentId: (body as { existing_document_id?: string })
+        ?.existing_document_id,
+    });
+  }
+
+  if (status === undefined) {
+    return new SuperpoweredApiError(message, details);
+  }
+  if (status === 401 || status === 403) {
+    return new SuperpoweredAuthError(message, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, details);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, {
+      ...details,
+      retryAfter: parseRetryAfter(error.response?.headers?.["retry-after"]),
+    });
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, details);
+  }
+  return new SuperpoweredApiError(message, details);
+}
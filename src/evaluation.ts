@@ -0,0 +1,385 @@
+import { InvalidEvaluationDatasetError } from "./errors";
+import { KnowledgeBaseAPI } from "./knowledgeBases";
+import { QueryKnowledgeBasesBody, RankedResult } from "./types";
+import { mapWithConcurrency } from "./utils";
+
+export interface EvaluationCase {
+  /** Identifies the case in reports. Defaults to its position in the dataset. */
+  id?: string;
+  query: string;
+  /** IDs of the documents that should be retrieved. */
+  expectedDocumentIds?: string[];
+  /** Supplementary IDs of the documents that should be retrieved. */
+  expectedSuppIds?: string[];
+  /** Knowledge bases to query instead of the dataset's. */
+  knowledgeBaseIds?: string[];
+}
+
+export interface EvaluationDataset {
+  /** The knowledge bases every case queries unless it sets its own. */
+  knowledgeBaseIds: string[];
+  cases: EvaluationCase[];
+}
+
+export type EvaluationParams = Omit<
+  QueryKnowledgeBasesBody,
+  "query" | "knowledge_base_ids" | "async"
+>;
+
+export interface EvaluationConfig {
+  /** The name of the configuration in reports. */
+  name: string;
+  /** Query parameters, e.g. `top_k`, `use_rse`, `segment_length` or `auto_query_guidance`. */
+  params: EvaluationParams;
+}
+
+export interface RetrievalMetrics {
+  /** Share of cases with a relevant document among the results. */
+  hitRate: number;
+  /** Mean reciprocal rank of the first relevant document. */
+  mrr: number;
+  /** Mean normalized discounted cumulative gain, with binary relevance. */
+  ndcg: number;
+}
+
+export interface EvaluationCaseResult {
+  id: string;
+  query: string;
+  /** Whether a relevant document was retrieved. */
+  hit: boolean;
+  /** The reciprocal of `firstRelevantRank`, or 0 if no relevant document was retrieved. */
+  reciprocalRank: number;
+  /** The normalized discounted cumulative gain of the results. */
+  ndcg: number;
+  /** The rank of the first relevant document, starting at 1, or undefined if none was retrieved. */
+  firstRelevantRank?: number;
+  /** IDs of the retrieved documents in rank order, without duplicates. */
+  retrievedDocumentIds: string[];
+  /** Set when the query failed. Failed cases score 0. */
+  errorMessage?: string;
+}
+
+export interface EvaluationConfigResult {
+  name: string;
+  params: EvaluationParams;
+  metrics: RetrievalMetrics;
+  /** The number of cases whose query failed. */
+  failed: number;
+  cases: EvaluationCaseResult[];
+}
+
+export interface EvaluationReport {
+  /** When the evaluation finished, in milliseconds since the epoch. */
+  generatedOn: number;
+  /** Rank cutoff applied to the results, if any. */
+  k?: number;
+  /** The number of cases in the dataset. */
+  caseCount: number;
+  configs: EvaluationConfigResult[];
+}
+
+export interface EvaluationOptions {
+  /** Only the first `k` results of each query are scored. Defaults to every result. */
+  k?: number;
+  /** How many queries run at once. Defaults to 4. */
+  concurrency?: number;
+  /** Called after each query. */
+  onProgress?: (progress: {
+    config: string;
+    completed: number;
+    total: number;
+  }) => void;
+}
+
+export type EvaluationReportFormat = "json" | "markdown";
+
+function getCaseId(testCase: EvaluationCase, index: number): string {
+  return testCase.id ?? String(index + 1);
+}
+
+/**
+ * Scores the results of one query. A result is relevant if its document is expected by ID
+ * or supplementary ID; each document counts once, at its best rank. A retrieved document
+ * expected by both its ID and its supplementary ID counts as one expected document.
+ * @param {RankedResult[]} results - The ranked results of the query.
+ * @param {EvaluationCase} testCase - The case with the expected documents.
+ * @param {number} [k] - Only the first `k` results are scored.
+ * @returns {Omit<EvaluationCaseResult, "id" | "query">} The hit, reciprocal rank and nDCG of the results.
+ */
+export function scoreResults(
+  results: RankedResult[],
+  testCase: EvaluationCase,
+  k?: number
+): Omit<EvaluationCaseResult, "id" | "query"> {
+  const expectedIds = unique(testCase.expectedDocumentIds ?? []);
+  const expectedSuppIds = unique(testCase.expectedSuppIds ?? []);
+  const retrievedDocumentIds: string[] = [];
+  const relevance: boolean[] = [];
+  // Supplementary IDs that name a document that is also expected by ID.
+  const duplicateSuppIds: string[] = [];
+
+  for (const { metadata } of results.slice(0, k)) {
+    if (retrievedDocumentIds.indexOf(metadata.document_id) !== -1) {
+      continue;
+    }
+    retrievedDocumentIds.push(metadata.document_id);
+    const { supp_id } = metadata.document;
+    const expectedById = expectedIds.indexOf(metadata.document_id) !== -1;
+    const expectedBySuppId =
+      supp_id !== undefined && expectedSuppIds.indexOf(supp_id) !== -1;
+    if (
+      expectedById &&
+      expectedBySuppId &&
+      duplicateSuppIds.indexOf(supp_id!) === -1
+    ) {
+      duplicateSuppIds.push(supp_id!);
+    }
+    relevance.push(expectedById || expectedBySuppId);
+  }
+
+  const firstIndex = relevance.indexOf(true);
+  const gain = (index: number) => 1 / Math.log2(index + 2);
+  const dcg = relevance.reduce(
+    (sum, relevant, index) => (relevant ? sum + gain(index) : sum),
+    0
+  );
+  // The ideal ranking puts every expected document first, within the cutoff.
+  const idealCount = Math.min(
+    expectedIds.length + expectedSuppIds.length - duplicateSuppIds.length,
+    k ?? Infinity
+  );
+  let idcg = 0;
+  for (let i = 0; i < idealCount; i++) {
+    idcg += gain(i);
+  }
+
+  return {
+    hit: firstIndex !== -1,
+    firstRelevantRank: firstIndex === -1 ? undefined : firstIndex + 1,
+    reciprocalRank: firstIndex === -1 ? 0 : 1 / (firstIndex + 1),
+    ndcg: idcg > 0 ? Math.min(1, dcg / idcg) : 0,
+    retrievedDocumentIds,
+  };
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+/**
+ * Runs every case of a dataset under each configuration and scores the results.
+ * Failed queries are recorded in the report and score 0.
+ * @param {KnowledgeBaseAPI} knowledgeBases - The API to query, e.g. `client.knowledgeBase`.
+ * @param {EvaluationDataset} dataset - The queries and their expected documents.
+ * @param {EvaluationConfig[]} configs - The query parameters to compare.
+ * @param {EvaluationOptions} [options] - Rank cutoff, concurrency and progress callback.
+ * @returns {Promise<EvaluationReport>} The metrics of each configuration.
+ */
+export async function evaluateRetrieval(
+  knowledgeBases: KnowledgeBaseAPI,
+  dataset: EvaluationDataset,
+  configs: EvaluationConfig[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const { k, concurrency = 4, onProgress } = options;
+  const results: EvaluationConfigResult[] = [];
+
+  for (const { name, params } of configs) {
+    let completed = 0;
+    const cases = await mapWithConcurrency(
+      dataset.cases,
+      concurrency,
+      async (testCase, index): Promise<EvaluationCaseResult> => {
+        const id = getCaseId(testCase, index);
+        try {
+          const response = await knowledgeBases.queryKnowledgeBases({
+            ...params,
+            query: testCase.query,
+            knowledge_base_ids:
+              testCase.knowledgeBaseIds ?? dataset.knowledgeBaseIds,
+          });
+          return {
+            id,
+            query: testCase.query,
+            ...scoreResults(response.ranked_results, testCase, k),
+          };
+        } catch (error) {
+          return {
+            id,
+            query: testCase.query,
+            hit: false,
+            reciprocalRank: 0,
+            ndcg: 0,
+            retrievedDocumentIds: [],
+            errorMessage: (error as Error).message,
+          };
+        } finally {
+          onProgress?.({
+            config: name,
+            completed: ++completed,
+            total: dataset.cases.length,
+          });
+        }
+      }
+    );
+
+    results.push({
+      name,
+      params,
+      metrics: {
+        hitRate: average(cases.map(({ hit }) => (hit ? 1 : 0))),
+        mrr: average(cases.map(({ reciprocalRank }) => reciprocalRank)),
+        ndcg: average(cases.map(({ ndcg }) => ndcg)),
+      },
+      failed: cases.filter(({ errorMessage }) => errorMessage).length,
+      cases,
+    });
+  }
+
+  return {
+    generatedOn: Date.now(),
+    k,
+    caseCount: dataset.cases.length,
+    configs: results,
+  };
+}
+
+function formatNumber(value: number): string {
+  return value.toFixed(3);
+}
+
+function formatParams(params: EvaluationParams): string {
+  const keys = Object.keys(params) as (keyof EvaluationParams)[];
+  return keys.length > 0
+    ? keys.map((key) => `${key}=${JSON.stringify(params[key])}`).join(", ")
+    : "defaults";
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+}
+
+function formatMarkdown(report: EvaluationReport): string {
+  const { configs } = report;
+  const metricKeys: (keyof RetrievalMetrics)[] = ["hitRate", "mrr", "ndcg"];
+  const best = metricKeys.map((key) =>
+    Math.max(...configs.map(({ metrics }) => metrics[key]))
+  );
+
+  const lines = [
+    "# Retrieval evaluation",
+    "",
+    `- Cases: ${report.caseCount}`,
+    ...(report.k !== undefined ? [`- Cutoff: top ${report.k}`] : []),
+    `- Generated: ${new Date(report.generatedOn).toISOString()}`,
+    "",
+    "## Comparison",
+    "",
+    `| Configuration | Parameters | Hit rate | MRR | nDCG | Failed |`,
+    `| --- | --- | --- | --- | --- | --- |`,
+    ...configs.map(({ name, params, metrics, failed }) => {
+      const cells = metricKeys.map((key, index) => {
+        const text = formatNumber(metrics[key]);
+        // Highlight the best value of each metric when configurations differ.
+        return configs.length > 1 && metrics[key] === best[index]
+          ? `**${text}**`
+          : text;
+      });
+      return `| ${escapeCell(name)} | ${escapeCell(
+        formatParams(params)
+      )} | ${cells.join(" | ")} | ${failed} |`;
+    }),
+  ];
+
+  const caseIds = configs[0]?.cases.map(({ id, query }) => ({ id, query }));
+  if (caseIds && caseIds.length > 0) {
+    lines.push(
+      "",
+      "## First relevant rank by case",
+      "",
+      `| Case | Query | ${configs
+        .map(({ name }) => escapeCell(name))
+        .join(" | ")} |`,
+      `| --- | --- | ${configs.map(() => "---").join(" | ")} |`,
+      ...caseIds.map(
+        ({ id, query }, index) =>
+          `| ${escapeCell(id)} | ${escapeCell(query)} | ${configs
+            .map(({ cases }) => {
+              const result = cases[index];
+              return result.errorMessage
+                ? "error"
+                : result.firstRelevantRank ?? "-";
+            })
+            .join(" | ")} |`
+      )
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Serializes an evaluation report.
+ * @param {EvaluationReport} report - The report.
+ * @param {EvaluationReportFormat} [format] - `json` or `markdown`. Defaults to `json`.
+ * @returns {string} The serialized report.
+ */
+export function formatEvaluationReport(
+  report: EvaluationReport,
+  format: EvaluationReportFormat = "json"
+): string {
+  return format === "markdown"
+    ? formatMarkdown(report)
+    : `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Parses a dataset serialized as JSON.
+ * @param {string} text - The serialized dataset.
+ * @returns {EvaluationDataset} The dataset.
+ * @throws {InvalidEvaluationDatasetError} If the text is not a valid dataset.
+ */
+export function parseEvaluationDataset(text: string): EvaluationDataset {
+  let dataset: EvaluationDataset;
+  try {
+    dataset = JSON.parse(text);
+  } catch (error) {
+    throw new InvalidEvaluationDatasetError(
+      `Dataset is not valid JSON: ${(error as Error).message}`
+    );
+  }
+
+  if (
+    typeof dataset !== "object" ||
+    dataset === null ||
+    !Array.isArray(dataset.cases)
+  ) {
+    throw new InvalidEvaluationDatasetError("Dataset must have a cases array");
+  }
+  dataset.knowledgeBaseIds = dataset.knowledgeBaseIds ?? [];
+  dataset.cases.forEach((testCase, index) => {
+    const id = getCaseId(testCase ?? {}, index);
+    if (typeof testCase?.query !== "string" || !testCase.query.trim()) {
+      throw new InvalidEvaluationDatasetError(`Case ${id} has no query`);
+    }
+    if (
+      !testCase.expectedDocumentIds?.length &&
+      !testCase.expectedSuppIds?.length
+    ) {
+      throw new InvalidEvaluationDatasetError(
+        `Case ${id} has no expectedDocumentIds or expectedSuppIds`
+      );
+    }
+    if (!(testCase.knowledgeBaseIds ?? dataset.knowledgeBaseIds).length) {
+      throw new InvalidEvaluationDatasetError(
+        `Case ${id} has no knowledge bases to query`
+      );
+    }
+  });
+  return dataset;
+}
@@ -0,0 +1,52 @@
+/**
+ * Converts a glob pattern to a regular expression matched against POSIX-style relative paths.
+ * Supports `**`, `*`, `?`, `[...]` character classes and `{a,b}` alternatives.
+ * @param {string} pattern - The glob pattern, e.g. `docs/**\/*.{md,pdf}`.
+ * @returns {RegExp} The equivalent regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` matches zero or more directories, a trailing `**` matches everything.
+        const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+        if (atSegmentStart && pattern[i + 2] === "/") {
+          source += "(?:[^/]*/)*";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, "^")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
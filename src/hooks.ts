@@ -0,0 +1,312 @@
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestHeaders,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { getRequestPath, mapAxiosError } from "./errors";
+import { resolveOperation } from "./operations";
+
+export interface RequestEvent {
+  /** Identifies the request. Retries of a request share its id. */
+  requestId: string;
+  /** The SDK method, e.g. `document.listDocuments`, or `METHOD path` for other routes. */
+  operation: string;
+  /** The HTTP method. */
+  method: string;
+  /** The request path, without query string. */
+  path: string;
+  /** The retry count: 0 for the first attempt. */
+  attempt: number;
+  /** When this attempt started, in milliseconds since the epoch. */
+  startTime: number;
+  /** The request headers. `onRequest` hooks may modify them. */
+  headers: AxiosRequestHeaders;
+}
+
+export interface ResponseEvent extends RequestEvent {
+  /** The HTTP status. */
+  status: number;
+  /** How long this attempt took, in milliseconds. */
+  duration: number;
+  /** How long the request took including earlier attempts and retry delays, in milliseconds. */
+  totalDuration: number;
+}
+
+export interface ErrorEvent extends RequestEvent {
+  /** The HTTP status, if a response was received. */
+  status?: number;
+  /** How long this attempt took, in milliseconds. */
+  duration: number;
+  /** How long the request took including earlier attempts and retry delays, in milliseconds. */
+  totalDuration: number;
+  /** The error the request is rejected with. */
+  error: unknown;
+}
+
+export interface RetryEvent extends ErrorEvent {
+  /** How long the client waits before retrying, in milliseconds. */
+  delay: number;
+}
+
+/**
+ * Hooks called around every API request. Hooks are awaited, and an error thrown by a hook
+ * rejects the request.
+ */
+export interface ClientHooks {
+  /** Called before each attempt is sent. */
+  onRequest?: (event: RequestEvent) => void | Promise<void>;
+  /** Called when a response is received. */
+  onResponse?: (event: ResponseEvent) => void | Promise<void>;
+  /** Called when a request fails and will not be retried. */
+  onError?: (event: ErrorEvent) => void | Promise<void>;
+  /** Called when a failed attempt is about to be retried. */
+  onRetry?: (event: RetryEvent) => void | Promise<void>;
+}
+
+type HookedRequestConfig = InternalAxiosRequestConfig & {
+  __retryCount?: number;
+  __requestId?: string;
+  __startTime?: number;
+  __firstStartTime?: number;
+};
+
+function createRequestId(): string {
+  return `req_${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 8)}`;
+}
+
+function toRequestEvent(config: HookedRequestConfig): RequestEvent {
+  const method = (config.method ?? "get").toUpperCase();
+  const path = getRequestPath(config.url) ?? "";
+  return {
+    requestId: config.__requestId!,
+    operation: resolveOperation(method, path) ?? `${method} ${path}`,
+    method,
+    path,
+    attempt: config.__retryCount ?? 0,
+    startTime: config.__startTime!,
+    headers: config.headers,
+  };
+}
+
+function toErrorEvent(error: AxiosError): ErrorEvent {
+  const config = error.config as HookedRequestConfig;
+  const now = Date.now();
+  return {
+    ...toRequestEvent(config),
+    status: error.response?.status,
+    duration: now - config.__startTime!,
+    totalDuration: now - config.__firstStartTime!,
+    error: mapAxiosError(error),
+  };
+}
+
+/**
+ * Calls the `onRetry` hooks for a failed attempt.
+ * @param {ClientHooks[]} hooks - The hooks to call.
+ * @param {AxiosError} error - The error of the failed attempt.
+ * @param {number} delay - How long the client waits before retrying, in milliseconds.
+ * @returns {Promise<void>} A promise that resolves once every hook has run.
+ */
+export async function runRetryHooks(
+  hooks: ClientHooks[],
+  error: AxiosError,
+  delay: number
+): Promise<void> {
+  if (!error.config) {
+    return;
+  }
+  const event = { ...toErrorEvent(error), delay };
+  for (const { onRetry } of hooks) {
+    await onRetry?.(event);
+  }
+}
+
+/**
+ * Adds interceptors that call the hooks around every request made through the axios instance.
+ * Must be registered after the retry interceptor, and before interceptors that replace axios
+ * errors since failed requests are reported with the SDK's errors.
+ * @param {AxiosInstance} axiosInstance - The axios instance to observe.
+ * @param {ClientHooks[]} hooks - The hooks to call.
+ */
+export function attachHooks(
+  axiosInstance: AxiosInstance,
+  hooks: ClientHooks[]
+): void {
+  // Retried requests pass through the interceptors again, so their responses come back twice.
+  const reported = new WeakSet<object>();
+
+  axiosInstance.interceptors.request.use(async (config) => {
+    const hooked = config as HookedRequestConfig;
+    const now = Date.now();
+    hooked.__requestId = hooked.__requestId ?? createRequestId();
+    hooked.__firstStartTime = hooked.__firstStartTime ?? now;
+    hooked.__startTime = now;
+
+    const event = toRequestEvent(hooked);
+    for (const { onRequest } of hooks) {
+      await onRequest?.(event);
+    }
+    return config;
+  });
+
+  axiosInstance.interceptors.response.use(
+    async (response) => {
+      if (reported.has(response)) {
+        return response;
+      }
+      reported.add(response);
+
+      const config = response.config as HookedRequestConfig;
+      const now = Date.now();
+      const event: ResponseEvent = {
+        ...toRequestEvent(config),
+        status: response.status,
+        duration: now - config.__startTime!,
+        totalDuration: now - config.__firstStartTime!,
+      };
+      for (const { onResponse } of hooks) {
+        await onResponse?.(event);
+      }
+      return response;
+    },
+    async (error) => {
+      // Errors of retried attempts have already been reported and mapped.
+      if (!axios.isAxiosError(error) || !error.config) {
+        throw error;
+      }
+
+      const event = toErrorEvent(error);
+      for (const { onError } of hooks) {
+        await onError?.(event);
+      }
+      throw event.error;
+    }
+  );
+}
+
+function redactHeaders(headers: AxiosRequestHeaders): Record<string, unknown> {
+  const plain = headers.toJSON() as Record<string, unknown>;
+  const redacted: Record<string, unknown> = {};
+  for (const name of Object.keys(plain)) {
+    redacted[name] =
+      name.toLowerCase() === "authorization" ? "[REDACTED]" : plain[name];
+  }
+  return redacted;
+}
+
+/**
+ * Creates hooks that log every request, response, retry and error. The `Authorization`
+ * header is redacted.
+ * @param {(message: string) => void} [log] - Receives the log lines. Defaults to `console.debug`.
+ * @returns {ClientHooks} The logging hooks.
+ */
+export function createDebugLogger(
+  log: (message: string) => void = console.debug
+): ClientHooks {
+  const prefix = ({ requestId, operation }: RequestEvent) =>
+    `[superpowered] ${requestId} ${operation}`;
+
+  return {
+    onRequest: (event) =>
+      log(
+        `${prefix(event)} -> ${event.method} ${event.path} (attempt ${
+          event.attempt + 1
+        }) ${JSON.stringify(redactHeaders(event.headers))}`
+      ),
+    onResponse: (event) =>
+      log(`${prefix(event)} <- ${event.status} in ${event.duration}ms`),
+    onRetry: (event) =>
+      log(
+        `${prefix(event)} retrying in ${event.delay}ms after ${
+          event.status ?? "network error"
+        }`
+      ),
+    onError: (event) =>
+      log(
+        `${prefix(event)} failed after ${event.totalDuration}ms: ${
+          event.error instanceof Error ? event.error.message : event.error
+        }`
+      ),
+  };
+}
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of an OpenTelemetry `Span` used by the SDK.
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used by the SDK, so a tracer from
+ * `@opentelemetry/api` can be passed as is.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): Span;
+}
+
+/** OpenTelemetry's `SpanStatusCode.ERROR`. */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Creates hooks that record a span per request attempt, named after the operation.
+ * @param {Tracer} tracer - The tracer to start spans with.
+ * @returns {ClientHooks} The tracing hooks.
+ */
+export function createTracingHooks(tracer: Tracer): ClientHooks {
+  const spans = new Map<string, Span>();
+  const key = ({ requestId, attempt }: RequestEvent) =>
+    `${requestId}:${attempt}`;
+
+  const finish = (event: ErrorEvent) => {
+    const span = spans.get(key(event));
+    if (!span) {
+      return;
+    }
+    spans.delete(key(event));
+    if (event.status !== undefined) {
+      span.setAttribute("http.response.status_code", event.status);
+    }
+    const message =
+      event.error instanceof Error ? event.error.message : String(event.error);
+    span.recordException(
+      event.error instanceof Error ? event.error : String(event.error)
+    );
+    span.setStatus({ code: SPAN_STATUS_ERROR, message });
+    span.end();
+  };
+
+  return {
+    onRequest: (event) => {
+      spans.set(
+        key(event),
+        tracer.startSpan(event.operation, {
+          attributes: {
+            "http.request.method": event.method,
+            "url.path": event.path,
+            "superpowered.request_id": event.requestId,
+            "superpowered.attempt": event.attempt,
+          },
+        })
+      );
+    },
+    onResponse: (event) => {
+      const span = spans.get(key(event));
+      if (span) {
+        spans.delete(key(event));
+        span.setAttribute("http.response.status_code", event.status);
+        span.end();
+      }
+    },
+    onRetry: finish,
+    onError: finish,
+  };
+}
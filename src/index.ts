@@ -1,2 +1,134 @@
 export { SuperpoweredApiClient } from "./client";
+export type {
+  SuperpoweredClientOptions,
+  SuperpoweredCredentials,
+} from "./client";
+export { SDK_VERSION } from "./version";
+export type { RetryOptions } from "./retry";
+export { JobAPI, isAsyncJobResponse } from "./jobs";
+export type { WaitForJobOptions } from "./jobs";
+export type { StreamChatOptions } from "./chat";
+export { Conversation } from "./conversation";
+export type { ConversationOptions, ConversationReply } from "./conversation";
+export {
+  TRANSCRIPT_VERSION,
+  createTranscript,
+  formatTranscript,
+  parseTranscript,
+} from "./transcripts";
+export type {
+  ChatTranscript,
+  TranscriptFormat,
+  TranscriptImportReport,
+  TranscriptReplayFailure,
+} from "./transcripts";
+export {
+  formatCitations,
+  getCitations,
+  getWebCitations,
+  resolveSources,
+} from "./citations";
+export type {
+  CitationFormat,
+  CitationOptions,
+  CitationSource,
+} from "./citations";
+export type {
+  BulkDocumentSpec,
+  BulkDocumentUpdate,
+  BulkItemResult,
+  BulkOptions,
+  BulkProgress,
+  BulkResult,
+  UploadDocumentOptions,
+  UploadDocumentResult,
+  WaitForDocumentOptions,
+} from "./documents";
+export {
+  MemoryQueryCacheStore,
+  QueryCache,
+  createQueryCacheKey,
+} from "./cache";
+export type {
+  MemoryQueryCacheStoreOptions,
+  QueryCacheEntry,
+  QueryCacheOptions,
+  QueryCacheStore,
+} from "./cache";
+export {
+  evaluateRetrieval,
+  formatEvaluationReport,
+  parseEvaluationDataset,
+  scoreResults,
+} from "./evaluation";
+export type {
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationConfig,
+  EvaluationConfigResult,
+  EvaluationDataset,
+  EvaluationOptions,
+  EvaluationParams,
+  EvaluationReport,
+  EvaluationReportFormat,
+  RetrievalMetrics,
+} from "./evaluation";
+export {
+  formatIngestionPlan,
+  parseFrontMatter,
+  planIngestion,
+} from "./ingestion";
+export type {
+  FrontMatter,
+  IngestionDocument,
+  IngestionFormat,
+  IngestionOptions,
+  IngestionPlan,
+  IngestionSource,
+  IngestionSplitOptions,
+} from "./ingestion";
+export { createChatProxyHandler } from "./proxy";
+export type {
+  ChatProxyAction,
+  ChatProxyField,
+  ChatProxyHandler,
+  ChatProxyOptions,
+  ChatProxyOverrides,
+  ChatProxyTarget,
+} from "./proxy";
+export { ChatProxyClient } from "./proxyClient";
+export type { ChatProxyClientOptions } from "./proxyClient";
+export {
+  SuperpoweredRetriever,
+  createRetrieverTool,
+  toAnthropicTool,
+  toOpenAITool,
+  toRetrievedDocument,
+} from "./retriever";
+export type {
+  RetrievedDocument,
+  RetrievedDocumentMetadata,
+  RetrieverQueryParams,
+  RetrieverTool,
+  RetrieverToolOptions,
+  RetrieverToolParameters,
+  SuperpoweredRetrieverOptions,
+} from "./retriever";
+export { createDebugLogger, createTracingHooks } from "./hooks";
+export type {
+  ClientHooks,
+  ErrorEvent,
+  RequestEvent,
+  ResponseEvent,
+  RetryEvent,
+  Span,
+  SpanAttributes,
+  Tracer,
+} from "./hooks";
+export { resolveOperation } from "./operations";
+export { findResponseSchema, schemas, validate } from "./schemas";
+export type { Schema, ValidationIssue, ValidationMode } from "./schemas";
+export { PageIterator } from "./pagination";
+export type { Page, PageParams, PaginationOptions } from "./pagination";
+export * from "./errors";
 export * from "./types";
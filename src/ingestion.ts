@@ -0,0 +1,463 @@
+export type IngestionFormat = "markdown" | "html";
+
+/** A Markdown or HTML file to ingest. */
+export interface IngestionSource {
+  /** The file's path or name, e.g. `docs/guide.md`. Used to detect the format and as the fallback title. */
+  path: string;
+  /** The file's text. */
+  content: string;
+  /** The format. Defaults to the one matching the path's extension. */
+  format?: IngestionFormat;
+}
+
+export interface IngestionSplitOptions {
+  /** Headings at this level or above start a new document, e.g. 2 splits at `#` and `##`. Defaults to 2. */
+  headingLevel?: number;
+  /** Files shorter than this many characters are not split. Defaults to 0. */
+  minLength?: number;
+}
+
+export interface IngestionOptions {
+  /** Splits files by heading into one document per section. Files are not split by default. */
+  split?: IngestionSplitOptions;
+  /** The front-matter key (or HTML `<meta>` name) whose value becomes the `supp_id`. Defaults to `id`. */
+  suppIdKey?: string;
+  /** Sets `auto_context` on every planned document. */
+  autoContext?: boolean;
+}
+
+/** A document the ingestion pipeline will create with `createDocumentWithRawText`. */
+export interface IngestionDocument {
+  /** The path of the source file. */
+  source: string;
+  /** The slug of the heading the document was split at. Undefined for whole files. */
+  section?: string;
+  title: string;
+  content: string;
+  chunk_header?: string;
+  description?: string;
+  supp_id?: string;
+  link_to_source?: string;
+  auto_context?: boolean;
+}
+
+export interface IngestionPlan {
+  documents: IngestionDocument[];
+  /** Sources that produce no documents, e.g. empty files or unsupported formats. */
+  skipped: { source: string; reason: string }[];
+}
+
+export type FrontMatter = Record<string, string | string[]>;
+
+interface Section {
+  /** 0 for the text before the first heading. */
+  level: number;
+  heading: string;
+  lines: string[];
+}
+
+const FORMATS: Record<string, IngestionFormat> = {
+  md: "markdown",
+  markdown: "markdown",
+  mdx: "markdown",
+  html: "html",
+  htm: "html",
+};
+
+const MAX_DESCRIPTION_LENGTH = 300;
+
+function unquote(value: string): string {
+  const match = /^(["'])([\s\S]*)\1$/.exec(value);
+  if (!match) {
+    return value;
+  }
+  return match[1] === '"'
+    ? match[2].replace(/\\"/g, '"').replace(/\\n/g, "\n")
+    : match[2].replace(/''/g, "'");
+}
+
+/**
+ * Parses the YAML front-matter at the start of a Markdown file. Only the flat subset used
+ * for document metadata is supported: scalars, inline and dash lists, and `|` / `>` blocks.
+ * @param {string} text - The file's text.
+ * @returns {{ data: FrontMatter; body: string }} The front-matter fields and the text after it.
+ */
+export function parseFrontMatter(text: string): {
+  data: FrontMatter;
+  body: string;
+} {
+  const normalized = text.replace(/^\ufeff/, "").replace(/\r\n?/g, "\n");
+  const match = /^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/.exec(
+    normalized
+  );
+  if (!match) {
+    return { data: {}, body: normalized };
+  }
+
+  const data: FrontMatter = {};
+  const lines = match[1].split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const field = /^([\w.-]+)[ \t]*:(?:[ \t]+(.*))?$/.exec(lines[i]);
+    if (!field) {
+      continue;
+    }
+    const [, key, rawValue = ""] = field;
+    const value = rawValue.replace(/[ \t]+#.*$/, "").trim();
+
+    // Collect the indented lines that belong to this key.
+    const nested: string[] = [];
+    while (i + 1 < lines.length && /^(?:[ \t]+|-[ \t])/.test(lines[i + 1])) {
+      nested.push(lines[++i]);
+    }
+
+    if (/^[|>][+-]?$/.test(value)) {
+      const block = nested.map((line) => line.trim());
+      data[key] =
+        value[0] === "|"
+          ? block.join("\n").trim()
+          : block.join(" ").replace(/\s+/g, " ").trim();
+    } else if (/^\[.*\]$/.test(value)) {
+      data[key] = value
+        .slice(1, -1)
+        .split(",")
+        .map((item) => unquote(item.trim()))
+        .filter(Boolean);
+    } else if (value) {
+      data[key] = unquote(value);
+    } else if (nested.length > 0) {
+      data[key] = nested
+        .map((line) => /^[ \t]*-[ \t]+(.*)$/.exec(line))
+        .filter((item): item is RegExpExecArray => item !== null)
+        .map((item) => unquote(item[1].trim()));
+    }
+  }
+  return { data, body: normalized.slice(match[0].length) };
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      // Out-of-range and surrogate code points are not characters, and would make fromCodePoint throw.
+      return point <= 0x10ffff && (point < 0xd800 || point > 0xdfff)
+        ? String.fromCodePoint(point)
+        : "\ufffd";
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Converts an HTML page to Markdown-style text: headings become `#` lines, list items
+ * become `-` lines and other markup is dropped. `<meta name content>` tags are returned
+ * as front-matter, and `<title>` as `title` unless a meta tag sets it.
+ */
+function parseHtml(html: string): { data: FrontMatter; body: string } {
+  const data: FrontMatter = {};
+  const metaTags = html.match(/<meta\b[^>]*>/gi) ?? [];
+  for (const tag of metaTags) {
+    const name = /\b(?:name|property)\s*=\s*["']([^"']+)["']/i.exec(tag);
+    const content = /\bcontent\s*=\s*(["'])([\s\S]*?)\1/i.exec(tag);
+    if (name && content) {
+      data[name[1].replace(/^og:/, "")] = decodeEntities(content[2]).trim();
+    }
+  }
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  if (title && data.title === undefined) {
+    data.title = stripTags(title[1]);
+  }
+
+  const bodyMatch = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html);
+  const body = (bodyMatch ? bodyMatch[1] : html)
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, text: string) =>
+        `\n\n${"#".repeat(Number(level))} ${stripTags(text)}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(
+      /<\/?(p|div|section|article|main|header|footer|aside|nav|ul|ol|table|tr|pre|blockquote|dl|dt|dd|figure|hr)\b[^>]*>/gi,
+      "\n\n"
+    )
+    .replace(/<[^>]*>/g, "");
+
+  const text = decodeEntities(body)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { data, body: text };
+}
+
+/** Splits Markdown into sections at ATX headings, ignoring `#` lines in fenced code. */
+function parseSections(markdown: string): Section[] {
+  const sections: Section[] = [{ level: 0, heading: "", lines: [] }];
+  let fence: string | undefined;
+
+  for (const line of markdown.split("\n")) {
+    const fenceMatch = /^ {0,3}(```|~~~)/.exec(line);
+    if (fenceMatch) {
+      if (fence === undefined) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = undefined;
+      }
+    }
+    const heading =
+      fence === undefined && !fenceMatch
+        ? /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/.exec(line)
+        : null;
+    if (heading) {
+      sections.push({
+        level: heading[1].length,
+        heading: heading[2].trim(),
+        lines: [line],
+      });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/[\s_]+/g, "-");
+}
+
+function getField(data: FrontMatter, key: string): string | undefined {
+  const value = data[key];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function getFileTitle(filePath: string): string {
+  const name = filePath.split("/").pop() ?? filePath;
+  return name.replace(/\.[^.]*$/, "") || name;
+}
+
+/** The first paragraph that is not a heading, list or code, truncated for use as a description. */
+function getFirstParagraph(sections: Section[]): string | undefined {
+  const text = sections
+    .map(({ level, lines }) => (level > 0 ? lines.slice(1) : lines).join("\n"))
+    .join("\n\n")
+    .replace(/^ {0,3}(```|~~~)[\s\S]*?^ {0,3}\1.*$/gm, "");
+  const paragraph = text
+    .split(/\n[ \t]*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block && !/^(#|[-*+>|]|\d+\.|<)/.test(block))[0];
+  if (!paragraph) {
+    return undefined;
+  }
+  const flat = paragraph.replace(/\s+/g, " ");
+  if (flat.length <= MAX_DESCRIPTION_LENGTH) {
+    return flat;
+  }
+  return `${flat.slice(0, MAX_DESCRIPTION_LENGTH - 1).replace(/\s+$/, "")}…`;
+}
+
+function hasText(sections: Section[]): boolean {
+  return sections.some(({ level, lines }) =>
+    (level > 0 ? lines.slice(1) : lines).some((line) => line.trim())
+  );
+}
+
+function joinSections(sections: Section[]): string {
+  return sections
+    .map(({ lines }) => lines.join("\n"))
+    .join("\n")
+    .trim();
+}
+
+/**
+ * Groups sections into parts that each start at a heading at or above `headingLevel`. The
+ * trail of each part lists the enclosing split headings, outermost first.
+ */
+function splitSections(
+  sections: Section[],
+  headingLevel: number
+): { trail: string[]; sections: Section[] }[] {
+  const parts: { trail: string[]; sections: Section[] }[] = [];
+  const stack: Section[] = [];
+
+  for (const section of sections) {
+    if (
+      parts.length === 0 ||
+      (section.level > 0 && section.level <= headingLevel)
+    ) {
+      while (
+        stack.length > 0 &&
+        stack[stack.length - 1].level >= section.level
+      ) {
+        stack.pop();
+      }
+      if (section.level > 0) {
+        stack.push(section);
+      }
+      parts.push({
+        trail: stack.map(({ heading }) => heading),
+        sections: [section],
+      });
+    } else {
+      parts[parts.length - 1].sections.push(section);
+    }
+  }
+  return parts.filter((part) => hasText(part.sections));
+}
+
+function withAnchor(
+  link: string | undefined,
+  slug: string
+): string | undefined {
+  return link && link.indexOf("#") === -1 ? `${link}#${slug}` : link;
+}
+
+function planSource(
+  source: IngestionSource,
+  options: IngestionOptions
+): IngestionDocument[] {
+  const { split, suppIdKey = "id", autoContext } = options;
+  const { data, body } =
+    source.format === "html"
+      ? parseHtml(source.content)
+      : parseFrontMatter(source.content);
+  const sections = parseSections(body);
+  if (!hasText(sections)) {
+    return [];
+  }
+
+  const firstH1 = sections.filter(({ level }) => level === 1)[0]?.heading;
+  const title = getField(data, "title") ?? firstH1 ?? getFileTitle(source.path);
+  const description = getField(data, "description");
+  const chunkHeader = getField(data, "chunk_header");
+  const suppId = getField(data, suppIdKey);
+  const link = getField(data, "link_to_source") ?? getField(data, "url");
+  const base = {
+    source: source.path,
+    link_to_source: link,
+    auto_context: autoContext,
+  };
+
+  const headingLevel = split?.headingLevel ?? 2;
+  const parts =
+    split && body.length >= (split.minLength ?? 0)
+      ? splitSections(sections, headingLevel)
+      : [];
+  if (parts.length <= 1) {
+    return [
+      {
+        ...base,
+        title,
+        content: joinSections(sections),
+        chunk_header: chunkHeader ?? title,
+        description: description ?? getFirstParagraph(sections),
+        supp_id: suppId,
+      },
+    ];
+  }
+
+  const slugCounts: Record<string, number> = {};
+  return parts.map(({ trail, sections: partSections }) => {
+    // The document title is usually the first `#` heading, so it is not repeated in the trail.
+    const headings = trail.filter(
+      (heading, index) => index > 0 || heading !== title
+    );
+    const heading = headings[headings.length - 1];
+    let slug = heading ? slugify(heading) || "section" : "introduction";
+    slugCounts[slug] = (slugCounts[slug] ?? -1) + 1;
+    if (slugCounts[slug] > 0) {
+      slug = `${slug}-${slugCounts[slug]}`;
+    }
+    const header = [chunkHeader ?? title].concat(headings).join(" > ");
+
+    return {
+      ...base,
+      section: slug,
+      title: heading ? `${title} - ${heading}` : title,
+      content: joinSections(partSections),
+      chunk_header: header,
+      description: description ?? getFirstParagraph(partSections),
+      supp_id: suppId && `${suppId}#${slug}`,
+      link_to_source: withAnchor(link, slug),
+    };
+  });
+}
+
+/**
+ * Plans the raw-text documents for Markdown and HTML files. Titles, descriptions, chunk
+ * headers, links and `supp_id`s come from front-matter (or `<meta>` tags) and headings:
+ *
+ * - `title`: the `title` field, the first `#` heading, or the file name
+ * - `description`: the `description` field, or the first paragraph
+ * - `chunk_header`: the `chunk_header` field or the title, followed by the section's headings
+ * - `supp_id`: the `suppIdKey` field, with `#<section>` appended to split documents
+ * - `link_to_source`: the `link_to_source` or `url` field, with a section anchor for split documents
+ *
+ * Preview the plan with `formatIngestionPlan`, then create it with `client.document.ingestDocuments`.
+ * @param {IngestionSource[]} sources - The files to ingest.
+ * @param {IngestionOptions} [options] - Splitting, the `supp_id` key and `auto_context`.
+ * @returns {IngestionPlan} The planned documents and the skipped sources.
+ */
+export function planIngestion(
+  sources: IngestionSource[],
+  options: IngestionOptions = {}
+): IngestionPlan {
+  const plan: IngestionPlan = { documents: [], skipped: [] };
+
+  for (const source of sources) {
+    const extension = /\.([^./]+)$/.exec(source.path)?.[1].toLowerCase();
+    const format = source.format ?? (extension && FORMATS[extension]);
+    if (!format) {
+      plan.skipped.push({ source: source.path, reason: "unsupported format" });
+      continue;
+    }
+    const documents = planSource({ ...source, format }, options);
+    if (documents.length === 0) {
+      plan.skipped.push({ source: source.path, reason: "no content" });
+    }
+    plan.documents.push(...documents);
+  }
+  return plan;
+}
+
+/**
+ * Formats an ingestion plan as one line per document, e.g.
+ * `+ docs/guide.md#install  Guide - Install (812 chars, supp_id guide#install)`.
+ * @param {IngestionPlan} plan - The plan to format.
+ * @returns {string} The formatted plan.
+ */
+export function formatIngestionPlan(plan: IngestionPlan): string {
+  const lines = plan.documents.map(
+    ({ source, section, title, content, supp_id }) =>
+      `+ ${source}${section ? `#${section}` : ""}  ${title} (${
+        content.length
+      } chars${supp_id ? `, supp_id ${supp_id}` : ""})`
+  );
+  for (const { source, reason } of plan.skipped) {
+    lines.push(`! ${source}  skipped: ${reason}`);
+  }
+  return lines.length > 0 ? lines.join("\n") : "Nothing to ingest";
+}
@@ -0,0 +1,135 @@
+import { AxiosInstance } from "axios";
+import { AsyncJobResponse, ChatResponse, QueryResponse } from "./types";
+import { JobExpiredError, JobFailedError, JobTimeoutError } from "./errors";
+import { sleep, throwIfAborted, toMillis } from "./utils";
+
+export interface WaitForJobOptions {
+  /** Initial delay between polls, in milliseconds. Defaults to 1000. */
+  pollInterval?: number;
+  /** Upper bound for the delay between polls, in milliseconds. Defaults to 10000. */
+  maxPollInterval?: number;
+  /** Multiplier applied to the delay after every poll. Defaults to 1.5. */
+  backoffFactor?: number;
+  /** Overall time to wait before giving up, in milliseconds. Defaults to 300000. */
+  timeout?: number;
+  /** Signal that cancels the wait. */
+  signal?: AbortSignal;
+}
+
+const COMPLETE_STATUSES = ["COMPLETE", "COMPLETED", "SUCCESS"];
+const FAILED_STATUSES = ["FAILED", "ERROR", "CANCELLED"];
+
+/**
+ * Checks whether a response is an async job rather than a final result.
+ * @param {unknown} value - The value returned by an endpoint that accepts `async: true`.
+ * @returns {boolean} True if the value is an async job response.
+ */
+export function isAsyncJobResponse<T = ChatResponse>(
+  value: unknown
+): value is AsyncJobResponse<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "status_url" in value &&
+    "status" in value
+  );
+}
+
+export class JobAPI {
+  constructor(private axiosInstance: AxiosInstance) {}
+
+  /**
+   * Retrieves an async job by its ID or status URL.
+   * @param {string} jobIdOrStatusUrl - The job ID, or the `status_url` returned with the job.
+   * @param {AbortSignal} [signal] - Optional signal that cancels the request.
+   * @returns {Promise<AsyncJobResponse<T>>} A promise that resolves to the job.
+   */
+  async getJob<T = ChatResponse>(
+    jobIdOrStatusUrl: string,
+    signal?: AbortSignal
+  ): Promise<AsyncJobResponse<T>> {
+    const url = /^https?:\/\//.test(jobIdOrStatusUrl)
+      ? jobIdOrStatusUrl
+      : `/jobs/${jobIdOrStatusUrl}`;
+    const response = await this.axiosInstance.get(url, { signal });
+    return response.data;
+  }
+
+  /**
+   * Polls an async job until it completes and resolves to its response.
+   * @param {AsyncJobResponse<T> | string} job - The job, its ID, or its status URL.
+   * @param {WaitForJobOptions} [options] - Polling options.
+   * @returns {Promise<T>} A promise that resolves to the job's response.
+   * @throws {JobFailedError} If the job finishes with a failed status.
+   * @throws {JobTimeoutError} If the job does not complete within `options.timeout`.
+   * @throws {JobExpiredError} If the job passes its `expires` time before completing.
+   * @throws {RequestAbortedError} If `options.signal` is aborted.
+   */
+  async waitForJob<T = ChatResponse>(
+    job: AsyncJobResponse<T> | string,
+    options: WaitForJobOptions = {}
+  ): Promise<T> {
+    const {
+      pollInterval = 1000,
+      maxPollInterval = 10000,
+      backoffFactor = 1.5,
+      timeout = 300000,
+      signal,
+    } = options;
+    const deadline = Date.now() + timeout;
+    const jobRef = typeof job === "string" ? job : job.status_url || job.id;
+
+    let current =
+      typeof job === "string" ? await this.getJob<T>(job, signal) : job;
+    let delay = pollInterval;
+
+    while (true) {
+      const status = current.status?.toUpperCase();
+      if (COMPLETE_STATUSES.indexOf(status) !== -1) {
+        return current.response;
+      }
+      if (FAILED_STATUSES.indexOf(status) !== -1) {
+        throw new JobFailedError(current.id, current.status);
+      }
+      if (current.expires && Date.now() >= toMillis(current.expires)) {
+        throw new JobExpiredError(current.id, current.expires);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new JobTimeoutError(current.id ?? jobRef, timeout);
+      }
+
+      await sleep(Math.min(delay, remaining), signal);
+      throwIfAborted(signal);
+      delay = Math.min(delay * backoffFactor, maxPollInterval);
+      current = await this.getJob<T>(current.status_url || jobRef, signal);
+    }
+  }
+
+  /**
+   * Polls a chat response job until it completes.
+   * @param {AsyncJobResponse<ChatResponse> | string} job - The job, its ID, or its status URL.
+   * @param {WaitForJobOptions} [options] - Polling options.
+   * @returns {Promise<ChatResponse>} A promise that resolves to the chat response.
+   */
+  async waitForChatResponse(
+    job: AsyncJobResponse<ChatResponse> | string,
+    options?: WaitForJobOptions
+  ): Promise<ChatResponse> {
+    return this.waitForJob<ChatResponse>(job, options);
+  }
+
+  /**
+   * Polls a knowledge base query job until it completes.
+   * @param {AsyncJobResponse<T> | string} job - The job, its ID, or its status URL.
+   * @param {WaitForJobOptions} [options] - Polling options.
+   * @returns {Promise<T>} A promise that resolves to the query results.
+   */
+  async waitForQueryResponse<T extends QueryResponse = QueryResponse>(
+    job: AsyncJobResponse<T> | string,
+    options?: WaitForJobOptions
+  ): Promise<T> {
+    return this.waitForJob<T>(job, options);
+  }
+}
@@ -1,8 +1,18 @@
 import { AxiosInstance } from "axios";
-import { KnowledgeBase } from "./types";
+import { QueryCache } from "./cache";
+import {
+  AsyncJobResponse,
+  KnowledgeBase,
+  QueryKnowledgeBasesBody,
+  QueryKnowledgeBasesResponse,
+} from "./types";
+import { PageIterator, PaginationOptions } from "./pagination";
 
 export class KnowledgeBaseAPI {
-  constructor(private axiosInstance: AxiosInstance) {}
+  constructor(
+    private axiosInstance: AxiosInstance,
+    private queryCache?: QueryCache
+  ) {}
 
   /**
    * Lists knowledge bases with optional filters.
@@ -25,6 +35,28 @@ export class KnowledgeBaseAPI {
     return response.data;
   }
 
+  /**
+   * Iterates over every knowledge base, following page tokens automatically.
+   * @param {Object} [filters] - Optional filters for the knowledge bases.
+   * @param {string} [filters.title_begins_with] - Filter knowledge bases by title prefix.
+   * @param {string} [filters.supp_id] - Filter knowledge bases by support ID.
+   * @param {PaginationOptions} [options] - Optional max-items cap and page size.
+   * @returns {PageIterator<KnowledgeBase>} - An async iterable over the matching knowledge bases.
+   */
+  iterateKnowledgeBases(
+    filters?: {
+      title_begins_with?: string;
+      supp_id?: string;
+    },
+    options?: PaginationOptions
+  ): PageIterator<KnowledgeBase> {
+    return new PageIterator(async (page) => {
+      const { knowledge_bases, next_page_token } =
+        await this.listKnowledgeBases({ ...filters, ...page });
+      return { items: knowledge_bases, next_page_token };
+    }, options);
+  }
+
   /**
    * Creates a new knowledge base.
    * @param {Omit<KnowledgeBase, "id" | "created_on" | "storage_bytes" | "document_count">} data - The data for the new knowledge base.
@@ -81,11 +113,14 @@ export class KnowledgeBaseAPI {
    */
   async deleteKnowledgeBase(knowledgeBaseId: string): Promise<void> {
     await this.axiosInstance.delete(`/knowledge_bases/${knowledgeBaseId}`);
+    await this.queryCache?.invalidate(knowledgeBaseId);
   }
 
   /**
    * Queries knowledge bases with specified parameters.
-   * @param {Object} data - The query parameters.
+   * The return type narrows on `async`, `summarize_results` and `json_response`.
+   * When the client has a query cache, synchronous queries are answered from it.
+   * @param {QueryKnowledgeBasesBody} data - The query parameters.
    * @param {string} data.query - The query string.
    * @param {boolean} [data.async] - Whether the query should be asynchronous.
    * @param {string[]} data.knowledge_base_ids - The IDs of the knowledge bases to query.
@@ -96,50 +131,39 @@ export class KnowledgeBaseAPI {
    * @param {string} data.summary_config.system_message - The system message for summarizing results.
    * @param {boolean} [data.use_auto_query] - Whether to use auto query.
    * @param {boolean} [data.use_rse] - Whether to use RSE.
-   * @param {"short" | "medium" | "long"} [data.segment_length] - The segment length for the query.
+   * @param {SegmentLength} [data.segment_length] - The segment length for the query.
    * @param {string | null} [data.summary_system_message] - The system message for the summary.
    * @param {string} [data.auto_query_guidance] - Guidance for auto query.
-   * @param {boolean} [data.json_response] - Whether to return the response in JSON format.
+   * @param {boolean} [data.json_response] - Whether to return the summary as JSON.
    * @param {boolean} [data.use_web_search] - Whether to use web search.
-   * @param {Object} [data.web_search_config] - Configuration for web search.
-   * @param {string} data.web_search_config.web_search_preset_id - The preset ID for web search.
-   * @param {string[]} [data.web_search_config.include_domains] - Domains to include in the web search.
-   * @param {string[]} [data.web_search_config.exclude_domains] - Domains to exclude from the web search.
-   * @param {string} [data.web_search_config.start_date] - The start date for the web search.
-   * @param {string} [data.web_search_config.end_date] - The end date for the web search.
-   * @param {number} [data.web_search_config.timeframe_days] - The timeframe in days for the web search.
-   * @returns {Promise<any>} - A promise that resolves to the query results.
+   * @param {WebSearchConfig} [data.web_search_config] - Configuration for web search.
+   * @returns {Promise<QueryKnowledgeBasesResponse<B> | AsyncJobResponse<QueryKnowledgeBasesResponse<B>>>} - A promise that resolves to the query results, or to an async job if `async` is true.
    */
-  async queryKnowledgeBases(data: {
-    query: string;
-    async?: boolean;
-    knowledge_base_ids: string[];
-    top_k?: number;
-    exclude_irrelevant_results?: boolean;
-    summarize_results?: boolean;
-    summary_config?: {
-      system_message: string;
+  async queryKnowledgeBases<
+    B extends QueryKnowledgeBasesBody & { async: true }
+  >(data: B): Promise<AsyncJobResponse<QueryKnowledgeBasesResponse<B>>>;
+  async queryKnowledgeBases<
+    B extends QueryKnowledgeBasesBody & { async?: false }
+  >(data: B): Promise<QueryKnowledgeBasesResponse<B>>;
+  async queryKnowledgeBases(
+    data: QueryKnowledgeBasesBody
+  ): Promise<
+    QueryKnowledgeBasesResponse | AsyncJobResponse<QueryKnowledgeBasesResponse>
+  >;
+  async queryKnowledgeBases(
+    data: QueryKnowledgeBasesBody
+  ): Promise<
+    QueryKnowledgeBasesResponse | AsyncJobResponse<QueryKnowledgeBasesResponse>
+  > {
+    const send = async () => {
+      const response = await this.axiosInstance.post(
+        "/knowledge_bases/query",
+        data
+      );
+      return response.data;
     };
-    use_auto_query?: boolean;
-    use_rse?: boolean;
-    segment_length?: "short" | "medium" | "long";
-    summary_system_message?: string | null;
-    auto_query_guidance?: string;
-    json_response?: boolean;
-    use_web_search?: boolean;
-    web_search_config?: {
-      web_search_preset_id: string;
-      include_domains?: string[];
-      exclude_domains?: string[];
-      start_date?: string;
-      end_date?: string;
-      timeframe_days?: number;
-    };
-  }): Promise<any> {
-    const response = await this.axiosInstance.post(
-      "/knowledge_bases/query",
-      data
-    );
-    return response.data;
+    return this.queryCache && !data.async
+      ? this.queryCache.getOrLoad(data, send)
+      : send();
   }
 }
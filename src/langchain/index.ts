@@ -0,0 +1,39 @@
+import { Document } from "@langchain/core/documents";
+import { BaseRetriever, BaseRetrieverInput } from "@langchain/core/retrievers";
+import { RetrievedDocumentMetadata, SuperpoweredRetriever } from "../retriever";
+
+export interface SuperpoweredLangChainRetrieverInput
+  extends BaseRetrieverInput {
+  retriever: SuperpoweredRetriever;
+}
+
+/**
+ * A LangChain retriever backed by `SuperpoweredRetriever`, for use in chains and agents.
+ * Requires `@langchain/core`.
+ */
+export class SuperpoweredLangChainRetriever extends BaseRetriever<
+  RetrievedDocumentMetadata & Record<string, unknown>
+> {
+  static lc_name(): string {
+    return "SuperpoweredLangChainRetriever";
+  }
+
+  lc_namespace = ["superpowered", "retrievers"];
+
+  private retriever: SuperpoweredRetriever;
+
+  constructor(fields: SuperpoweredLangChainRetrieverInput) {
+    super(fields);
+    this.retriever = fields.retriever;
+  }
+
+  async _getRelevantDocuments(
+    query: string
+  ): Promise<Document<RetrievedDocumentMetadata & Record<string, unknown>>[]> {
+    const documents = await this.retriever.getRelevantDocuments(query);
+    return documents.map(
+      ({ pageContent, metadata }) =>
+        new Document({ pageContent, metadata: { ...metadata } })
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import type { QueryBundle } from "@llamaindex/core/query-engine";
+import { BaseRetriever } from "@llamaindex/core/retriever";
+import { NodeWithScore, TextNode } from "@llamaindex/core/schema";
+import { extractText } from "@llamaindex/core/utils";
+import { SuperpoweredRetriever } from "../retriever";
+
+/**
+ * A LlamaIndex retriever backed by `SuperpoweredRetriever`, for use in query engines and
+ * agents. Each node is scored with the result's `reranker_score`. Requires `@llamaindex/core`.
+ */
+export class SuperpoweredLlamaIndexRetriever extends BaseRetriever {
+  constructor(private retriever: SuperpoweredRetriever) {
+    super();
+  }
+
+  async _retrieve({ query }: QueryBundle): Promise<NodeWithScore[]> {
+    const documents = await this.retriever.getRelevantDocuments(
+      extractText(query)
+    );
+    return documents.map(({ pageContent, metadata }) => ({
+      node: new TextNode({ text: pageContent, metadata: { ...metadata } }),
+      score: metadata.reranker_score,
+    }));
+  }
+}
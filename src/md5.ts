@@ -0,0 +1,114 @@
+/**
+ * A portable MD5 implementation, so uploads can be hashed without Node's `crypto`
+ * in browsers and edge runtimes. Web Crypto doesn't support MD5.
+ */
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+];
+
+const CONSTANTS = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0
+);
+
+/**
+ * Computes an MD5 hash incrementally.
+ */
+export class Md5 {
+  private state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private length = 0;
+  private words = new Int32Array(16);
+
+  /**
+   * Adds data to the hash.
+   * @param {Uint8Array} data - The bytes to add.
+   * @returns {this} The hash, for chaining.
+   */
+  update(data: Uint8Array): this {
+    this.length += data.length;
+    let offset = 0;
+    while (offset < data.length) {
+      const count = Math.min(64 - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + count), this.blockLength);
+      this.blockLength += count;
+      offset += count;
+      if (this.blockLength === 64) {
+        this.processBlock();
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Finishes the hash. The instance can't be updated afterwards.
+   * @returns {Uint8Array} The 16-byte digest.
+   */
+  digest(): Uint8Array {
+    const bitLength = this.length * 8;
+    const padding = new Uint8Array(
+      (this.blockLength < 56 ? 56 : 120) - this.blockLength + 8
+    );
+    padding[0] = 0x80;
+    for (let i = 0; i < 8; i++) {
+      padding[padding.length - 8 + i] =
+        Math.floor(bitLength / Math.pow(2, 8 * i)) & 0xff;
+    }
+    this.update(padding);
+
+    const digest = new Uint8Array(16);
+    this.state.forEach((word, i) => {
+      for (let j = 0; j < 4; j++) {
+        digest[i * 4 + j] = (word >>> (8 * j)) & 0xff;
+      }
+    });
+    return digest;
+  }
+
+  private processBlock(): void {
+    const { block, words } = this;
+    for (let i = 0; i < 16; i++) {
+      words[i] =
+        block[i * 4] |
+        (block[i * 4 + 1] << 8) |
+        (block[i * 4 + 2] << 16) |
+        (block[i * 4 + 3] << 24);
+    }
+
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      f = (f + a + CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((f << SHIFTS[i]) | (f >>> (32 - SHIFTS[i])))) | 0;
+    }
+
+    const { state } = this;
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+    this.blockLength = 0;
+  }
+}
@@ -0,0 +1,377 @@
+import fs from "fs";
+import path from "path";
+import { DocumentAPI } from "../documents";
+import {
+  InvalidBackupError,
+  NotFoundError,
+  SuperpoweredError,
+} from "../errors";
+import { KnowledgeBaseAPI } from "../knowledgeBases";
+import { Document, KnowledgeBase } from "../types";
+import { mapWithConcurrency } from "../utils";
+
+/** Identifies the manifest of a knowledge base backup. */
+export const BACKUP_FORMAT = "superpowered-kb-backup";
+/** Version of the backup format written by `KnowledgeBaseBackup`. */
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const DOCUMENTS_DIR = "documents";
+const RESTORE_STATE_FILE = "restore-state.json";
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** When the backup finished, as an ISO timestamp. */
+  createdAt: string;
+  knowledgeBase: KnowledgeBase;
+  /** The backed up documents. Their content is in `file`, relative to the archive directory. */
+  documents: { id: string; title: string; file: string }[];
+}
+
+/**
+ * The APIs a backup is restored through. A `SuperpoweredApiClient` can be passed as is,
+ * including one for another account.
+ */
+export interface RestoreTarget {
+  knowledgeBase: KnowledgeBaseAPI;
+  document: DocumentAPI;
+}
+
+export interface BackupOptions {
+  /** How many documents to download at once. Defaults to 4. */
+  concurrency?: number;
+  /** Called after each document is written. */
+  onDocument?: (document: Document) => void;
+}
+
+export interface RestoreOptions {
+  /** Restore into this existing knowledge base instead of creating one. */
+  knowledgeBaseId?: string;
+  /** Title of the knowledge base to create. Defaults to the backed up title. */
+  title?: string;
+  /** The client to restore through. Defaults to the one the backup module belongs to. */
+  target?: RestoreTarget;
+  /** How many documents to create at once. Defaults to 4. */
+  concurrency?: number;
+  /**
+   * File that records restored documents, so an interrupted restore can resume where it
+   * stopped. Defaults to `restore-state.json` in the archive directory.
+   */
+  statePath?: string;
+  /** Called after each document is restored or fails. */
+  onDocument?: (result: RestoreDocumentResult) => void;
+}
+
+export interface RestoreDocumentResult {
+  /** The ID of the document in the backup. */
+  sourceId: string;
+  title: string;
+  success: boolean;
+  /** The ID of the restored document. */
+  documentId?: string;
+  /** True if the document was restored by an earlier run. */
+  skipped?: boolean;
+  errorMessage?: string;
+}
+
+export interface RestoreReport {
+  knowledgeBaseId: string;
+  summary: { restored: number; skipped: number; failed: number };
+  documents: RestoreDocumentResult[];
+}
+
+interface RestoreState {
+  knowledgeBaseId: string;
+  /** Maps document IDs in the backup to the IDs of their restored copies. */
+  restored: Record<string, string>;
+}
+
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  // Write through a temporary file so an interruption never leaves truncated JSON behind.
+  const temporaryPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(temporaryPath, JSON.stringify(value, null, 2));
+  await fs.promises.rename(temporaryPath, filePath);
+}
+
+/**
+ * Backs up knowledge bases with their documents to a directory, and restores them.
+ */
+export class KnowledgeBaseBackup {
+  constructor(
+    private knowledgeBases: KnowledgeBaseAPI,
+    private documents: DocumentAPI
+  ) {}
+
+  /**
+   * Writes a knowledge base and the content of every document to a directory.
+   * The directory gets a `manifest.json` once every document has been written.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {string} directory - The archive directory. Created if needed.
+   * @param {BackupOptions} [options] - Concurrency and progress callback.
+   * @returns {Promise<BackupManifest>} The manifest of the backup.
+   */
+  async backup(
+    knowledgeBaseId: string,
+    directory: string,
+    options: BackupOptions = {}
+  ): Promise<BackupManifest> {
+    const { concurrency = 4, onDocument } = options;
+    const knowledgeBase = await this.knowledgeBases.getKnowledgeBase(
+      knowledgeBaseId
+    );
+    const listed = await this.documents
+      .iterateDocuments(knowledgeBaseId)
+      .collectAll();
+    await fs.promises.mkdir(path.join(directory, DOCUMENTS_DIR), {
+      recursive: true,
+    });
+
+    const documents = await mapWithConcurrency(
+      listed,
+      concurrency,
+      async ({ id }) => {
+        const document = await this.documents.getDocument(
+          knowledgeBaseId,
+          id,
+          true
+        );
+        const file = `${DOCUMENTS_DIR}/${id}.json`;
+        await writeJson(path.join(directory, file), document);
+        onDocument?.(document);
+        return { id, title: document.title, file };
+      }
+    );
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      knowledgeBase,
+      documents,
+    };
+    await writeJson(path.join(directory, MANIFEST_FILE), manifest);
+    return manifest;
+  }
+
+  /**
+   * Reads the manifest of a backup.
+   * @param {string} directory - The archive directory.
+   * @returns {Promise<BackupManifest>} The manifest.
+   * @throws {InvalidBackupError} If the directory has no valid manifest.
+   */
+  async readManifest(directory: string): Promise<BackupManifest> {
+    const manifest = await readJson<BackupManifest>(
+      path.join(directory, MANIFEST_FILE)
+    );
+    if (!manifest) {
+      throw new InvalidBackupError(directory, `${MANIFEST_FILE} is missing`);
+    }
+    if (manifest.format !== BACKUP_FORMAT) {
+      throw new InvalidBackupError(directory, "unknown manifest format");
+    }
+    if (manifest.version > BACKUP_VERSION) {
+      throw new InvalidBackupError(
+        directory,
+        `version ${manifest.version} is newer than the supported version ${BACKUP_VERSION}`
+      );
+    }
+    return manifest;
+  }
+
+  /**
+   * Restores a backup into a new or existing knowledge base, possibly through another client.
+   * Documents keep their title, content, supp_id, description, link_to_source and chunk_header.
+   * Restored documents are recorded in a state file, so running the restore again after a
+   * partial failure only creates the documents that are missing. The state is only resumed
+   * if its knowledge base exists on the target; otherwise the restore starts over.
+   * @param {string} directory - The archive directory.
+   * @param {RestoreOptions} [options] - Target knowledge base, client, concurrency and state file.
+   * @returns {Promise<RestoreReport>} A JSON-serializable report of the restore.
+   */
+  async restore(
+    directory: string,
+    options: RestoreOptions = {}
+  ): Promise<RestoreReport> {
+    const {
+      target = { knowledgeBase: this.knowledgeBases, document: this.documents },
+      concurrency = 4,
+      statePath = path.join(directory, RESTORE_STATE_FILE),
+      onDocument,
+    } = options;
+    const manifest = await this.readManifest(directory);
+
+    let state = await readJson<RestoreState>(statePath);
+    if (
+      state &&
+      !(await this.canResume(state, target, options.knowledgeBaseId))
+    ) {
+      state = undefined;
+    }
+    if (!state) {
+      const { title, language_code, type, supp_id, description } =
+        manifest.knowledgeBase;
+      const knowledgeBaseId =
+        options.knowledgeBaseId ??
+        (
+          await target.knowledgeBase.createKnowledgeBase({
+            title: options.title ?? title,
+            language_code,
+            type,
+            supp_id,
+            description,
+          })
+        ).id;
+      state = { knowledgeBaseId, restored: {} };
+      await writeJson(statePath, state);
+    }
+    const { knowledgeBaseId, restored } = state;
+
+    // Serialize state writes, since documents finish concurrently.
+    let saving = Promise.resolve();
+    const save = () => {
+      saving = saving.then(() => writeJson(statePath, state));
+      return saving;
+    };
+
+    const documents = await mapWithConcurrency(
+      manifest.documents,
+      concurrency,
+      async ({ id, title, file }): Promise<RestoreDocumentResult> => {
+        let result: RestoreDocumentResult;
+        if (restored[id]) {
+          result = {
+            sourceId: id,
+            title,
+            success: true,
+            documentId: restored[id],
+            skipped: true,
+          };
+        } else {
+          try {
+            const document = await this.restoreDocument(
+              target.document,
+              knowledgeBaseId,
+              path.join(directory, file)
+            );
+            restored[id] = document.id;
+            await save();
+            result = {
+              sourceId: id,
+              title,
+              success: true,
+              documentId: document.id,
+            };
+          } catch (error) {
+            result = {
+              sourceId: id,
+              title,
+              success: false,
+              errorMessage:
+                error instanceof Error ? error.message : String(error),
+            };
+          }
+        }
+        onDocument?.(result);
+        return result;
+      }
+    );
+
+    const summary = { restored: 0, skipped: 0, failed: 0 };
+    for (const result of documents) {
+      summary[
+        !result.success ? "failed" : result.skipped ? "skipped" : "restored"
+      ]++;
+    }
+    return { knowledgeBaseId, summary, documents };
+  }
+
+  /**
+   * Copies a knowledge base by backing it up to a directory and restoring it, possibly into
+   * another account. The directory can be passed to `restore` to resume a failed clone.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base to copy.
+   * @param {string} directory - The archive directory.
+   * @param {RestoreOptions} [options] - Restore options, such as the target client.
+   * @returns {Promise<RestoreReport>} The report of the restore.
+   */
+  async clone(
+    knowledgeBaseId: string,
+    directory: string,
+    options: RestoreOptions = {}
+  ): Promise<RestoreReport> {
+    await this.backup(knowledgeBaseId, directory, {
+      concurrency: options.concurrency,
+    });
+    return this.restore(directory, options);
+  }
+
+  /**
+   * Whether a restore state belongs to the target: the state's knowledge base must be the
+   * requested one, if any, and exist on the target, which rules out state left behind by a
+   * restore into another account.
+   */
+  private async canResume(
+    state: RestoreState,
+    target: RestoreTarget,
+    knowledgeBaseId: string | undefined
+  ): Promise<boolean> {
+    if (knowledgeBaseId && state.knowledgeBaseId !== knowledgeBaseId) {
+      return false;
+    }
+    try {
+      await target.knowledgeBase.getKnowledgeBase(state.knowledgeBaseId);
+      return true;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async restoreDocument(
+    documents: DocumentAPI,
+    knowledgeBaseId: string,
+    filePath: string
+  ): Promise<Document> {
+    const document = await readJson<Document>(filePath);
+    if (!document) {
+      throw new SuperpoweredError(`${filePath} is missing`);
+    }
+    const { title, supp_id, description, link_to_source, chunk_header } =
+      document;
+
+    if (document.content !== undefined) {
+      return documents.createDocumentWithRawText(knowledgeBaseId, {
+        content: document.content,
+        title,
+        supp_id,
+        description,
+        link_to_source,
+        chunk_header,
+      });
+    }
+    // Without content, documents created from a URL can still be fetched again.
+    if (link_to_source) {
+      return documents.createDocumentFromUrl(knowledgeBaseId, {
+        url: link_to_source,
+        title,
+        supp_id,
+        description,
+        chunk_header,
+      });
+    }
+    throw new SuperpoweredError(`The backup of "${title}" has no content`);
+  }
+}
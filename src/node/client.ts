@@ -0,0 +1,65 @@
+import { AxiosInstance } from "axios";
+import { QueryCache } from "../cache";
+import {
+  SuperpoweredApiClient as BaseClient,
+  SuperpoweredClientOptions,
+} from "../client";
+import { ResolvedRetryOptions } from "../retry";
+import { KnowledgeBaseBackup } from "./backup";
+import { NodeDocumentAPI } from "./documents";
+import { KnowledgeBaseSync } from "./sync";
+
+/**
+ * The client with Node-only features: uploads from file paths, streams and directories,
+ * folder sync and knowledge base backups.
+ */
+class SuperpoweredApiClient extends BaseClient {
+  public declare document: NodeDocumentAPI;
+  public sync: KnowledgeBaseSync;
+  public backup: KnowledgeBaseBackup;
+
+  /**
+   * Creates a client from an options object.
+   * @param {SuperpoweredClientOptions} options - The client options, including credentials.
+   */
+  constructor(options: SuperpoweredClientOptions);
+  /**
+   * Creates a client authenticated with an API key and secret.
+   * @param {string} username - The API key.
+   * @param {string} password - The API secret.
+   * @param {string} [baseURL] - The API base URL.
+   * @param {SuperpoweredClientOptions} [options] - Additional client options.
+   */
+  constructor(
+    username: string,
+    password: string,
+    baseURL?: string,
+    options?: SuperpoweredClientOptions
+  );
+  constructor(
+    usernameOrOptions: string | SuperpoweredClientOptions,
+    password?: string,
+    baseURL?: string,
+    options?: SuperpoweredClientOptions
+  ) {
+    super(usernameOrOptions as string, password as string, baseURL, options);
+    this.sync = new KnowledgeBaseSync(this.document);
+    this.backup = new KnowledgeBaseBackup(this.knowledgeBase, this.document);
+  }
+
+  protected createDocumentAPI(
+    axiosInstance: AxiosInstance,
+    retryOptions: ResolvedRetryOptions,
+    uploadAxiosInstance: AxiosInstance,
+    queryCache?: QueryCache
+  ): NodeDocumentAPI {
+    return new NodeDocumentAPI(
+      axiosInstance,
+      retryOptions,
+      uploadAxiosInstance,
+      queryCache
+    );
+  }
+}
+
+export { SuperpoweredApiClient };
@@ -0,0 +1,145 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  DocumentAPI,
+  UploadDocumentOptions,
+  UploadDocumentResult,
+} from "../documents";
+import { globToRegExp } from "../glob";
+import { mapWithConcurrency } from "../utils";
+import { hashFile, listFiles } from "./files";
+
+export interface UploadDirectoryOptions extends UploadDocumentOptions {
+  /** Glob pattern for the files to upload, relative to the directory. Defaults to `**\/*`. */
+  glob?: string;
+  /** Maximum number of concurrent uploads. Defaults to 4. */
+  concurrency?: number;
+  /** Called after each file has been uploaded or has failed. */
+  onFileUploaded?: (result: UploadDirectoryFileResult) => void;
+}
+
+export interface UploadDirectoryFileResult extends UploadDocumentResult {
+  /** The file's path relative to the uploaded directory, also used as its file name. */
+  path: string;
+  /** The error thrown while uploading the file, if any. */
+  error?: unknown;
+}
+
+/**
+ * `DocumentAPI` with uploads from file paths, Node streams and directories.
+ */
+export class NodeDocumentAPI extends DocumentAPI {
+  /**
+   * Uploads a file from disk to the knowledge base. The file is hashed and uploaded
+   * as a stream, so it is never held in memory as a whole.
+   *
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {string} filePath - The path of the file to upload.
+   * @param {UploadDocumentOptions & { fileName?: string }} [options] - Optional parameters.
+   * @param {string} [options.fileName] - The name to upload the file as. Defaults to the file's base name.
+   * @returns {Promise<UploadDocumentResult>} - The result of the upload operation.
+   */
+  async uploadFile(
+    knowledgeBaseId: string,
+    filePath: string,
+    options?: UploadDocumentOptions & { fileName?: string }
+  ): Promise<UploadDocumentResult> {
+    const [md5Hash, { size }] = await Promise.all([
+      hashFile(filePath),
+      fs.promises.stat(filePath),
+    ]);
+
+    return this.uploadBody(
+      knowledgeBaseId,
+      options?.fileName ?? path.basename(filePath),
+      md5Hash,
+      () => fs.createReadStream(filePath),
+      options,
+      { "Content-Length": String(size) }
+    );
+  }
+
+  /**
+   * Uploads the contents of a readable stream to the knowledge base. The stream is spooled
+   * to a temporary file while it is hashed, then streamed from there to the signed URL.
+   *
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {Readable} readable - The stream to upload.
+   * @param {string} fileName - The name of the file to be uploaded.
+   * @param {UploadDocumentOptions} [options] - Optional parameters.
+   * @returns {Promise<UploadDocumentResult>} - The result of the upload operation.
+   */
+  async uploadStream(
+    knowledgeBaseId: string,
+    readable: Readable,
+    fileName: string,
+    options?: UploadDocumentOptions
+  ): Promise<UploadDocumentResult> {
+    const tempDir = await fs.promises.mkdtemp(
+      path.join(os.tmpdir(), "superpowered-upload-")
+    );
+    const tempPath = path.join(tempDir, "upload");
+
+    try {
+      await pipeline(readable, fs.createWriteStream(tempPath));
+      return await this.uploadFile(knowledgeBaseId, tempPath, {
+        ...options,
+        fileName,
+      });
+    } finally {
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Uploads every file in a directory that matches a glob pattern.
+   * Files are uploaded under their path relative to the directory, using POSIX separators.
+   *
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {string} dir - The directory to upload.
+   * @param {UploadDirectoryOptions} [options] - Optional parameters.
+   * @param {string} [options.glob] - Glob pattern for the files to upload. Defaults to every file.
+   * @param {number} [options.concurrency] - Maximum number of concurrent uploads. Defaults to 4.
+   * @param {(result: UploadDirectoryFileResult) => void} [options.onFileUploaded] - Called after each file.
+   * @returns {Promise<UploadDirectoryFileResult[]>} - The result for each file, in path order.
+   */
+  async uploadDirectory(
+    knowledgeBaseId: string,
+    dir: string,
+    options: UploadDirectoryOptions = {}
+  ): Promise<UploadDirectoryFileResult[]> {
+    const {
+      glob = "**/*",
+      concurrency = 4,
+      onFileUploaded,
+      ...uploadOptions
+    } = options;
+    const pattern = globToRegExp(glob);
+    const files = (await listFiles(dir)).filter((file) => pattern.test(file));
+
+    return mapWithConcurrency(files, concurrency, async (file) => {
+      let result: UploadDirectoryFileResult;
+      try {
+        result = {
+          path: file,
+          ...(await this.uploadFile(knowledgeBaseId, path.join(dir, file), {
+            ...uploadOptions,
+            fileName: file,
+          })),
+        };
+      } catch (error) {
+        result = {
+          path: file,
+          success: false,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          error,
+        };
+      }
+      onFileUploaded?.(result);
+      return result;
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { globToRegExp } from "../glob";
+import { IngestionSource } from "../ingestion";
+
+/**
+ * Computes the base64-encoded MD5 hash of a file by streaming it from disk.
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("md5");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("base64");
+}
+
+/**
+ * Recursively lists the files in a directory as sorted POSIX-style relative paths.
+ */
+export async function listFiles(
+  dir: string,
+  prefix: string = ""
+): Promise<string[]> {
+  const entries = await fs.promises.readdir(path.join(dir, prefix), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(dir, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Reads the Markdown and HTML files in a directory as sources for `planIngestion`.
+ * @param {string} dir - The directory to read.
+ * @param {string} [glob] - Glob pattern for the files to read. Defaults to `**\/*.{md,markdown,mdx,html,htm}`.
+ * @returns {Promise<IngestionSource[]>} The files, with paths relative to the directory.
+ */
+export async function readIngestionSources(
+  dir: string,
+  glob: string = "**/*.{md,markdown,mdx,html,htm}"
+): Promise<IngestionSource[]> {
+  const pattern = globToRegExp(glob);
+  const files = (await listFiles(dir)).filter((file) => pattern.test(file));
+  return Promise.all(
+    files.map(async (file) => ({
+      path: file,
+      content: await fs.promises.readFile(path.join(dir, file), "utf8"),
+    }))
+  );
+}
@@ -0,0 +1,27 @@
+export * from "../index";
+export { SuperpoweredApiClient } from "./client";
+export { NodeDocumentAPI } from "./documents";
+export type {
+  UploadDirectoryFileResult,
+  UploadDirectoryOptions,
+} from "./documents";
+export { hashFile, listFiles, readIngestionSources } from "./files";
+export { toNodeHandler } from "./proxy";
+export { KnowledgeBaseSync, SYNC_SUPP_ID_PREFIX, formatSyncPlan } from "./sync";
+export type {
+  SyncAction,
+  SyncActionResult,
+  SyncActionType,
+  SyncOptions,
+  SyncPlan,
+  SyncReport,
+} from "./sync";
+export { BACKUP_FORMAT, BACKUP_VERSION, KnowledgeBaseBackup } from "./backup";
+export type {
+  BackupManifest,
+  BackupOptions,
+  RestoreDocumentResult,
+  RestoreOptions,
+  RestoreReport,
+  RestoreTarget,
+} from "./backup";
@@ -0,0 +1,78 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { ChatProxyHandler } from "../proxy";
+
+const SKIPPED_HEADERS = ["connection", "content-length", "transfer-encoding"];
+
+/** Reads the body as text, which is all the chat proxy routes accept. */
+async function readRequestBody(
+  req: IncomingMessage & { body?: unknown }
+): Promise<string | undefined> {
+  if (req.method === "GET" || req.method === "HEAD") {
+    return undefined;
+  }
+  // Frameworks such as Express may already have consumed and parsed the body.
+  if (req.body !== undefined) {
+    return Buffer.isBuffer(req.body) || typeof req.body === "string"
+      ? req.body.toString()
+      : JSON.stringify(req.body);
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ error: message }));
+}
+
+/**
+ * Adapts a Fetch API handler, such as one from `createChatProxyHandler`, to Node's `http`
+ * module. The result can be passed to `http.createServer` or mounted as Express middleware.
+ * @param {ChatProxyHandler} handler - The Fetch API handler.
+ * @returns {(req: IncomingMessage, res: ServerResponse) => Promise<void>} The Node request listener.
+ */
+export function toNodeHandler(
+  handler: ChatProxyHandler
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let request: Request;
+    try {
+      const headers = new Headers();
+      Object.keys(req.headers).forEach((name) => {
+        const value = req.headers[name];
+        // The body is re-encoded, so its original length and encoding no longer apply.
+        if (value !== undefined && SKIPPED_HEADERS.indexOf(name) === -1) {
+          headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+        }
+      });
+      // Express strips the mount path from `url`, so prefer the original URL.
+      const url =
+        (req as { originalUrl?: string }).originalUrl ?? req.url ?? "/";
+      request = new Request(`http://${req.headers.host ?? "localhost"}${url}`, {
+        method: req.method,
+        headers,
+        body: await readRequestBody(req),
+      });
+    } catch {
+      // A malformed host, URL or header, or a body the client aborted.
+      return sendError(res, 400, "Bad request");
+    }
+
+    try {
+      const response = await handler(request);
+      res.statusCode = response.status;
+      response.headers.forEach((value, name) => res.setHeader(name, value));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch {
+      sendError(res, 500, "Internal server error");
+    }
+  };
+}
@@ -0,0 +1,267 @@
+import path from "path";
+import { NodeDocumentAPI } from "./documents";
+import { hashFile, listFiles } from "./files";
+import { globToRegExp } from "../glob";
+import { Document } from "../types";
+import { mapWithConcurrency } from "../utils";
+import { SuperpoweredError } from "../errors";
+
+/**
+ * Prefix of the `supp_id` the sync engine stores on the documents it creates and manages.
+ * The rest of the `supp_id` is the base64-encoded MD5 hash of the uploaded file. Documents
+ * without it were created some other way, and sync never updates or deletes them.
+ */
+export const SYNC_SUPP_ID_PREFIX = "sync-md5:";
+
+export type SyncActionType =
+  | "create"
+  | "update"
+  | "delete"
+  | "unchanged"
+  | "skip";
+
+export interface SyncAction {
+  type: SyncActionType;
+  /** The file's path relative to the synced directory, used as the document's `file_name`. */
+  path: string;
+  /** The ID of the remote document, for updates, deletions, unchanged and skipped files. */
+  documentId?: string;
+  /** The MD5 hash of the local file. */
+  localHash?: string;
+  /** The MD5 hash recorded on the remote document. */
+  remoteHash?: string;
+}
+
+export interface SyncPlan {
+  knowledgeBaseId: string;
+  directory: string;
+  actions: SyncAction[];
+}
+
+export interface SyncActionResult extends SyncAction {
+  success: boolean;
+  errorMessage?: string;
+}
+
+export interface SyncReport {
+  knowledgeBaseId: string;
+  directory: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  summary: Record<SyncActionType | "failed", number>;
+  actions: SyncActionResult[];
+}
+
+export interface SyncOptions {
+  /** Glob pattern for the files to sync, relative to the directory. Defaults to `**\/*`. */
+  glob?: string;
+  /** Delete managed remote documents that no longer exist locally. Defaults to false. */
+  deleteOrphans?: boolean;
+  /** Compute the plan and report it without changing the knowledge base. Defaults to false. */
+  dryRun?: boolean;
+  /** Maximum number of concurrent uploads and deletions. Defaults to 4. */
+  concurrency?: number;
+  /** Called after each action has been applied. */
+  onAction?: (result: SyncActionResult) => void;
+}
+
+/**
+ * Formats a sync plan as one line per change, e.g. `+ docs/intro.md`.
+ * @param {SyncPlan} plan - The plan to format.
+ * @returns {string} The formatted plan.
+ */
+export function formatSyncPlan(plan: SyncPlan): string {
+  const symbols: Record<SyncActionType, string> = {
+    create: "+",
+    update: "~",
+    delete: "-",
+    unchanged: "=",
+    skip: "!",
+  };
+  const changes = plan.actions.filter(({ type }) => type !== "unchanged");
+  if (changes.length === 0) {
+    return `Knowledge base ${plan.knowledgeBaseId} is up to date with ${plan.directory}`;
+  }
+  return changes.map(({ type, path }) => `${symbols[type]} ${path}`).join("\n");
+}
+
+function getRemoteHash(document: Document): string | undefined {
+  return document.supp_id?.startsWith(SYNC_SUPP_ID_PREFIX)
+    ? document.supp_id.slice(SYNC_SUPP_ID_PREFIX.length)
+    : undefined;
+}
+
+/**
+ * Mirrors a local directory into a knowledge base. Files are matched to documents by
+ * `file_name`, and changes are detected with the content hash recorded in `supp_id`.
+ * Files whose document was not created by the sync engine are skipped, so its `supp_id`
+ * is never overwritten.
+ */
+export class KnowledgeBaseSync {
+  constructor(private documents: NodeDocumentAPI) {}
+
+  /**
+   * Diffs the files in a directory against the documents in a knowledge base.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {string} directory - The directory to mirror.
+   * @param {Pick<SyncOptions, "glob" | "deleteOrphans">} [options] - Which files to sync and whether to delete orphans.
+   * @returns {Promise<SyncPlan>} A promise that resolves to the planned actions.
+   */
+  async plan(
+    knowledgeBaseId: string,
+    directory: string,
+    options: Pick<SyncOptions, "glob" | "deleteOrphans"> = {}
+  ): Promise<SyncPlan> {
+    const { glob = "**/*", deleteOrphans = false } = options;
+    const pattern = globToRegExp(glob);
+    const [files, documents] = await Promise.all([
+      listFiles(directory),
+      this.documents.iterateDocuments(knowledgeBaseId).collectAll(),
+    ]);
+
+    const remoteByName = new Map<string, Document>();
+    for (const document of documents) {
+      const existing =
+        document.file_name && remoteByName.get(document.file_name);
+      if (
+        document.file_name &&
+        (!existing || document.created_on > existing.created_on)
+      ) {
+        remoteByName.set(document.file_name, document);
+      }
+    }
+
+    const actions: SyncAction[] = [];
+    const localFiles = files.filter((file) => pattern.test(file));
+    for (const file of localFiles) {
+      const localHash = await hashFile(path.join(directory, file));
+      const remote = remoteByName.get(file);
+      const remoteHash = remote && getRemoteHash(remote);
+
+      actions.push({
+        type: !remote
+          ? "create"
+          : remoteHash === undefined
+          ? "skip"
+          : remoteHash === localHash
+          ? "unchanged"
+          : "update",
+        path: file,
+        documentId: remote?.id,
+        localHash,
+        remoteHash,
+      });
+      remoteByName.delete(file);
+    }
+
+    if (deleteOrphans) {
+      remoteByName.forEach((document, file) => {
+        // Only documents uploaded by the sync engine are considered orphans.
+        const remoteHash = getRemoteHash(document);
+        if (remoteHash !== undefined && pattern.test(file)) {
+          actions.push({
+            type: "delete",
+            path: file,
+            documentId: document.id,
+            remoteHash,
+          });
+        }
+      });
+    }
+
+    return { knowledgeBaseId, directory, actions };
+  }
+
+  /**
+   * Uploads new files, updates changed ones and optionally deletes orphaned documents.
+   * Failed actions are recorded in the report instead of aborting the sync.
+   * @param {string} knowledgeBaseId - The ID of the knowledge base.
+   * @param {string} directory - The directory to mirror.
+   * @param {SyncOptions} [options] - Sync options.
+   * @returns {Promise<SyncReport>} A promise that resolves to a JSON-serializable report.
+   */
+  async sync(
+    knowledgeBaseId: string,
+    directory: string,
+    options: SyncOptions = {}
+  ): Promise<SyncReport> {
+    const { dryRun = false, concurrency = 4, onAction } = options;
+    const startedAt = new Date().toISOString();
+    const plan = await this.plan(knowledgeBaseId, directory, options);
+
+    const actions = await mapWithConcurrency(
+      plan.actions,
+      concurrency,
+      async (action): Promise<SyncActionResult> => {
+        let result: SyncActionResult;
+        try {
+          if (!dryRun) {
+            await this.apply(knowledgeBaseId, directory, action);
+          }
+          result = { ...action, success: true };
+        } catch (error) {
+          result = {
+            ...action,
+            success: false,
+            errorMessage:
+              error instanceof Error ? error.message : String(error),
+          };
+        }
+        onAction?.(result);
+        return result;
+      }
+    );
+
+    const summary = {
+      create: 0,
+      update: 0,
+      delete: 0,
+      unchanged: 0,
+      skip: 0,
+      failed: 0,
+    };
+    for (const action of actions) {
+      summary[action.success ? action.type : "failed"]++;
+    }
+
+    return {
+      knowledgeBaseId,
+      directory,
+      dryRun,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      summary,
+      actions,
+    };
+  }
+
+  private async apply(
+    knowledgeBaseId: string,
+    directory: string,
+    action: SyncAction
+  ): Promise<void> {
+    if (action.type === "unchanged" || action.type === "skip") {
+      return;
+    }
+    if (action.type === "delete") {
+      await this.documents.deleteDocument(knowledgeBaseId, action.documentId!);
+      return;
+    }
+
+    const result = await this.documents.uploadFile(
+      knowledgeBaseId,
+      path.join(directory, action.path),
+      {
+        fileName: action.path,
+        suppId: `${SYNC_SUPP_ID_PREFIX}${action.localHash}`,
+        isUpdate: action.type === "update",
+      }
+    );
+    if (!result.success) {
+      throw new SuperpoweredError(
+        result.errorMessage ?? `Failed to upload ${action.path}`
+      );
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Maps API routes to the SDK methods that call them, e.g. `document.listDocuments`.
+ * Patterns are anchored at the end only, so they match paths relative to the base URL
+ * as well as absolute URLs such as job status URLs.
+ */
+const OPERATIONS: [string, RegExp, string][] = [
+  ["GET", /\/knowledge_bases$/, "knowledgeBase.listKnowledgeBases"],
+  ["POST", /\/knowledge_bases$/, "knowledgeBase.createKnowledgeBase"],
+  ["POST", /\/knowledge_bases\/query$/, "knowledgeBase.queryKnowledgeBases"],
+  ["GET", /\/knowledge_bases\/[^/]+$/, "knowledgeBase.getKnowledgeBase"],
+  ["PATCH", /\/knowledge_bases\/[^/]+$/, "knowledgeBase.updateKnowledgeBase"],
+  ["DELETE", /\/knowledge_bases\/[^/]+$/, "knowledgeBase.deleteKnowledgeBase"],
+  ["GET", /\/knowledge_bases\/[^/]+\/documents$/, "document.listDocuments"],
+  [
+    "POST",
+    /\/knowledge_bases\/[^/]+\/documents\/request_signed_file_url$/,
+    "document.requestSignedFileUrl",
+  ],
+  [
+    "POST",
+    /\/knowledge_bases\/[^/]+\/documents\/raw_text$/,
+    "document.createDocumentWithRawText",
+  ],
+  [
+    "POST",
+    /\/knowledge_bases\/[^/]+\/documents\/url$/,
+    "document.createDocumentFromUrl",
+  ],
+  [
+    "GET",
+    /\/knowledge_bases\/[^/]+\/documents\/[^/]+$/,
+    "document.getDocument",
+  ],
+  [
+    "PATCH",
+    /\/knowledge_bases\/[^/]+\/documents\/[^/]+$/,
+    "document.updateDocument",
+  ],
+  [
+    "DELETE",
+    /\/knowledge_bases\/[^/]+\/documents\/[^/]+$/,
+    "document.deleteDocument",
+  ],
+  ["GET", /\/chat\/threads$/, "chat.listChatThreads"],
+  ["POST", /\/chat\/threads$/, "chat.createChatThread"],
+  ["GET", /\/chat\/threads\/[^/]+$/, "chat.getChatThread"],
+  ["PATCH", /\/chat\/threads\/[^/]+$/, "chat.updateChatThread"],
+  ["DELETE", /\/chat\/threads\/[^/]+$/, "chat.deleteChatThread"],
+  [
+    "POST",
+    /\/chat\/threads\/[^/]+\/get_response$/,
+    "chat.getChatThreadResponse",
+  ],
+  [
+    "GET",
+    /\/chat\/threads\/[^/]+\/interactions$/,
+    "chat.listChatThreadInteractions",
+  ],
+  ["GET", /\/jobs\/[^/]+$/, "job.getJob"],
+];
+
+/**
+ * Resolves the SDK operation that a request belongs to.
+ * @param {string} method - The HTTP method.
+ * @param {string} url - The request URL or path. The query string is ignored.
+ * @returns {string | undefined} The operation name, e.g. `document.listDocuments`.
+ */
+export function resolveOperation(
+  method: string,
+  url: string
+): string | undefined {
+  const upperMethod = method.toUpperCase();
+  const path = url.split("?")[0];
+  const route = OPERATIONS.find(
+    ([routeMethod, pattern]) =>
+      routeMethod === upperMethod && pattern.test(path)
+  );
+  return route?.[2];
+}
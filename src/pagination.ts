@@ -0,0 +1,84 @@
+export interface PaginationOptions {
+  /** Stop after yielding this many items. */
+  maxItems?: number;
+  /** Page size hint, sent to the API as the `limit` parameter. */
+  pageSize?: number;
+}
+
+export interface PageParams {
+  limit?: number;
+  next_page_token?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  next_page_token?: string;
+}
+
+/**
+ * Async iterable over a paginated list endpoint that follows `next_page_token` transparently.
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  constructor(
+    private fetchPage: (params: PageParams) => Promise<Page<T>>,
+    private options: PaginationOptions = {}
+  ) {}
+
+  /**
+   * Iterates over the items of every page, fetching pages lazily.
+   * @returns {AsyncIterator<T>} An iterator over the listed items.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page;
+    }
+  }
+
+  /**
+   * Iterates over whole pages instead of individual items.
+   * @returns {AsyncIterableIterator<T[]>} An iterator over the items of each page.
+   */
+  async *pages(): AsyncIterableIterator<T[]> {
+    const { maxItems, pageSize } = this.options;
+    let nextPageToken: string | undefined;
+    let fetched = 0;
+
+    do {
+      if (maxItems !== undefined && fetched >= maxItems) {
+        return;
+      }
+
+      const remaining = maxItems === undefined ? undefined : maxItems - fetched;
+      const limit =
+        remaining === undefined
+          ? pageSize
+          : Math.min(pageSize ?? remaining, remaining);
+      const page = await this.fetchPage({
+        limit,
+        next_page_token: nextPageToken,
+      });
+
+      const items =
+        remaining === undefined ? page.items : page.items.slice(0, remaining);
+      fetched += items.length;
+      nextPageToken = page.next_page_token;
+      yield items;
+
+      if (page.items.length === 0) {
+        return;
+      }
+    } while (nextPageToken);
+  }
+
+  /**
+   * Fetches every page and collects the items into an array.
+   * @returns {Promise<T[]>} A promise that resolves to all listed items.
+   */
+  async collectAll(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
@@ -0,0 +1,311 @@
+import type { ChatAPI } from "./chat";
+import { SuperpoweredApiError, SuperpoweredError } from "./errors";
+import { JobAPI, WaitForJobOptions, isAsyncJobResponse } from "./jobs";
+import {
+  Shape,
+  ValidationContext,
+  array,
+  boolean,
+  literal,
+  number,
+  optional,
+  schemas,
+  string,
+} from "./schemas";
+import {
+  ChatResponse,
+  ChatThread,
+  ChatThreadBody,
+  ChatThreadDefaultOptions,
+} from "./types";
+
+/** What a browser client is asking to do, passed to `authorize`. */
+export type ChatProxyAction =
+  | {
+      type: "createThread";
+      /** The knowledge bases the thread will search, after overrides. */
+      knowledgeBaseIds: string[];
+    }
+  | {
+      type: "sendMessage";
+      threadId: string;
+      /** The knowledge bases the message will search, after overrides. Undefined means the thread's defaults. */
+      knowledgeBaseIds?: string[];
+    }
+  | { type: "listInteractions"; threadId: string };
+
+/** A `ChatThreadBody` field that browser clients may set. */
+export type ChatProxyField = Exclude<keyof ChatThreadBody, "async">;
+
+export type ChatProxyOverrides = Partial<
+  Omit<ChatThreadBody, "input" | "async">
+>;
+
+export interface ChatProxyOptions {
+  /**
+   * Decides whether the caller of a request may perform the action, e.g. by checking that
+   * the thread belongs to the signed-in user. Return false to respond with 403.
+   */
+  authorize: (
+    request: Request,
+    action: ChatProxyAction
+  ) => boolean | Promise<boolean>;
+  /**
+   * Fields applied to every new thread's default options and every message, replacing
+   * what the browser sent, e.g. `model` or `system_message`.
+   */
+  overrides?:
+    | ChatProxyOverrides
+    | ((request: Request) => ChatProxyOverrides | Promise<ChatProxyOverrides>);
+  /** The fields browser clients may set. Defaults to `input` and `knowledge_base_ids`. */
+  clientFields?: ChatProxyField[];
+  /** The path the handler is mounted at, e.g. `/api/chat`. Defaults to the root. */
+  basePath?: string;
+  /** Called after a thread is created, e.g. to record which user owns it. */
+  onThreadCreated?: (
+    thread: ChatThread,
+    request: Request
+  ) => void | Promise<void>;
+  /** Polling options used when the API answers a message with an async job. */
+  jobOptions?: Omit<WaitForJobOptions, "signal">;
+}
+
+/** The client APIs the proxy forwards to, e.g. a `SuperpoweredApiClient`. */
+export interface ChatProxyTarget {
+  chat: ChatAPI;
+  job: JobAPI;
+}
+
+export type ChatProxyHandler = (request: Request) => Promise<Response>;
+
+/**
+ * API error statuses that are passed on to the browser, with a generic message because the
+ * API's messages name internal paths. Others respond with 502.
+ */
+const PASSED_STATUSES: Record<number, string> = {
+  400: "The request was rejected",
+  404: "Not found",
+  422: "The request was rejected",
+  429: "Too many requests",
+};
+
+const FIELD_SCHEMAS: Shape<Omit<ChatThreadBody, "async">> = {
+  input: string(),
+  knowledge_base_ids: optional(array(string())),
+  model: optional(string()),
+  temperature: optional(number()),
+  use_rse: optional(boolean()),
+  segment_length: optional(literal("very_short", "short", "medium", "long")),
+  response_length: optional(literal("short", "medium", "long")),
+  system_message: optional(string()),
+  auto_query_guidance: optional(string()),
+  json_response: optional(boolean()),
+  use_web_search: optional(boolean()),
+  web_search_config: optional(schemas.webSearchConfig),
+};
+
+/** Thread IDs are UUIDs; anything else could change the upstream API path. */
+const THREAD_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new HttpError(400, "Request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, "Invalid path encoding");
+  }
+}
+
+function pickFields(
+  body: Record<string, unknown>,
+  fields: ChatProxyField[]
+): Partial<ChatThreadBody> {
+  const picked: Record<string, unknown> = {};
+  const context: ValidationContext = {
+    issues: [],
+    unknownFields: [],
+    stripUnknown: true,
+  };
+  for (const field of fields) {
+    if (body[field] !== undefined) {
+      picked[field] = FIELD_SCHEMAS[field].parse(body[field], field, context);
+    }
+  }
+  // Reject wrongly typed fields rather than forwarding them or passing them to `authorize`.
+  if (context.issues.length > 0) {
+    const { path, message } = context.issues[0];
+    throw new HttpError(400, `Invalid ${path}: ${message}`);
+  }
+  return picked;
+}
+
+/**
+ * Creates a request handler that lets browsers chat through your server, which holds the
+ * API credentials. It takes a Fetch API `Request` and returns a `Response`, so it can be
+ * mounted in any framework that speaks Fetch; use `toNodeHandler` from the `/node` subpath
+ * for Node's `http` module and Express. Routes, relative to `basePath`:
+ *
+ * - `POST /threads` creates a thread from `{ title, ...clientFields }`
+ * - `POST /threads/:threadId/messages` sends `{ input, ...clientFields }` and returns the `ChatResponse`
+ * - `GET /threads/:threadId/interactions` lists interactions, with `limit`, `next_page_token` and `order`
+ *
+ * @param {ChatProxyTarget} client - The client to forward to, e.g. a `SuperpoweredApiClient`.
+ * @param {ChatProxyOptions} options - The authorization callback, overrides and allowed fields.
+ * @returns {ChatProxyHandler} The request handler.
+ */
+export function createChatProxyHandler(
+  client: ChatProxyTarget,
+  options: ChatProxyOptions
+): ChatProxyHandler {
+  const {
+    authorize,
+    clientFields = ["input", "knowledge_base_ids"],
+    onThreadCreated,
+    jobOptions,
+  } = options;
+  const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+
+  const getOverrides = async (request: Request) =>
+    typeof options.overrides === "function"
+      ? options.overrides(request)
+      : options.overrides ?? {};
+
+  const check = async (request: Request, action: ChatProxyAction) => {
+    if (!(await authorize(request, action))) {
+      throw new HttpError(403, "Forbidden");
+    }
+  };
+
+  const createThread = async (request: Request) => {
+    const body = await readBody(request);
+    if (body.title !== undefined && typeof body.title !== "string") {
+      throw new HttpError(400, "Invalid title: expected string");
+    }
+    const { input, ...fields } = {
+      ...pickFields(body, clientFields),
+      ...(await getOverrides(request)),
+    };
+    const knowledgeBaseIds = fields.knowledge_base_ids ?? [];
+    await check(request, { type: "createThread", knowledgeBaseIds });
+
+    const thread = await client.chat.createChatThread({
+      title: typeof body.title === "string" ? body.title : "",
+      default_options: {
+        ...fields,
+        knowledge_base_ids: knowledgeBaseIds,
+      } as ChatThreadDefaultOptions,
+    });
+    await onThreadCreated?.(thread, request);
+    return json(200, thread);
+  };
+
+  const sendMessage = async (request: Request, threadId: string) => {
+    const data = {
+      ...pickFields(await readBody(request), clientFields),
+      ...(await getOverrides(request)),
+    };
+    if (typeof data.input !== "string" || !data.input.trim()) {
+      throw new HttpError(400, "input is required");
+    }
+    await check(request, {
+      type: "sendMessage",
+      threadId,
+      knowledgeBaseIds: data.knowledge_base_ids,
+    });
+
+    const result = await client.chat.getChatThreadResponse(threadId, {
+      ...data,
+      input: data.input,
+    });
+    const response = isAsyncJobResponse<ChatResponse>(result)
+      ? await client.job.waitForChatResponse(result, jobOptions)
+      : result;
+    return json(200, response);
+  };
+
+  const listInteractions = async (request: Request, threadId: string) => {
+    await check(request, { type: "listInteractions", threadId });
+    const { searchParams } = new URL(request.url);
+    const limit = searchParams.get("limit");
+    const order = searchParams.get("order");
+    return json(
+      200,
+      await client.chat.listChatThreadInteractions(threadId, {
+        limit: limit ? Number(limit) : undefined,
+        next_page_token: searchParams.get("next_page_token") ?? undefined,
+        order: order === "asc" || order === "desc" ? order : undefined,
+      })
+    );
+  };
+
+  return async (request) => {
+    try {
+      const { pathname } = new URL(request.url);
+      if (pathname.indexOf(basePath) !== 0) {
+        throw new HttpError(404, "Not found");
+      }
+      const segments = pathname
+        .slice(basePath.length)
+        .split("/")
+        .filter(Boolean)
+        .map(decodeSegment);
+      const [resource, threadId, action] = segments;
+      const route = `${request.method} ${segments.length}`;
+      if (threadId !== undefined && !THREAD_ID_PATTERN.test(threadId)) {
+        throw new HttpError(400, "Invalid thread ID");
+      }
+
+      if (resource === "threads") {
+        if (route === "POST 1") {
+          return await createThread(request);
+        }
+        if (route === "POST 3" && action === "messages") {
+          return await sendMessage(request, threadId);
+        }
+        if (route === "GET 3" && action === "interactions") {
+          return await listInteractions(request, threadId);
+        }
+      }
+      throw new HttpError(404, "Not found");
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return json(error.status, { error: error.message });
+      }
+      // Pass on errors the caller can act on, such as a missing thread, but hide the rest.
+      if (
+        error instanceof SuperpoweredApiError &&
+        PASSED_STATUSES[error.status ?? 0] !== undefined
+      ) {
+        return json(error.status!, { error: PASSED_STATUSES[error.status!] });
+      }
+      return error instanceof SuperpoweredError
+        ? json(502, { error: "The chat request failed" })
+        : json(500, { error: "Internal server error" });
+    }
+  };
+}
@@ -0,0 +1,131 @@
+import { SuperpoweredApiError } from "./errors";
+import {
+  ChatInteraction,
+  ChatResponse,
+  ChatThread,
+  ChatThreadBody,
+} from "./types";
+
+export interface ChatProxyClientOptions {
+  /** The URL the proxy handler is mounted at, e.g. `/api/chat`. */
+  baseURL: string;
+  /** Headers sent with every request, e.g. a session token. Resolved per request when a function. */
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** The `fetch` implementation. Defaults to the global one. */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A browser client for `createChatProxyHandler`. It holds no API credentials and sends
+ * requests with `fetch`, so it only needs the server the handler is mounted on.
+ */
+export class ChatProxyClient {
+  private baseURL: string;
+
+  constructor(private options: ChatProxyClientOptions) {
+    this.baseURL = options.baseURL.replace(/\/+$/, "");
+  }
+
+  /**
+   * Creates a chat thread. The server may override or reject any of the options.
+   * @param {Object} [data] - The thread's title and default options the server allows.
+   * @returns {Promise<ChatThread>} The created chat thread.
+   */
+  createThread(
+    data: { title?: string } & Partial<
+      Omit<ChatThreadBody, "input" | "async">
+    > = {}
+  ): Promise<ChatThread> {
+    return this.request("POST", "/threads", data);
+  }
+
+  /**
+   * Sends a message to a chat thread and waits for the answer.
+   * @param {string} threadId - The ID of the chat thread.
+   * @param {string} input - The message.
+   * @param {Partial<Omit<ChatThreadBody, "input" | "async">>} [options] - Options the server allows, e.g. `knowledge_base_ids`.
+   * @returns {Promise<ChatResponse>} The chat response.
+   */
+  sendMessage(
+    threadId: string,
+    input: string,
+    options: Partial<Omit<ChatThreadBody, "input" | "async">> = {}
+  ): Promise<ChatResponse> {
+    return this.request(
+      "POST",
+      `/threads/${encodeURIComponent(threadId)}/messages`,
+      { ...options, input }
+    );
+  }
+
+  /**
+   * Lists the interactions of a chat thread.
+   * @param {string} threadId - The ID of the chat thread.
+   * @param {Object} [params] - Optional parameters for listing chat thread interactions.
+   * @param {number} [params.limit] - The limit of interactions to return.
+   * @param {string} [params.next_page_token] - The token for the next page of results.
+   * @param {"asc" | "desc"} [params.order] - The order of interactions.
+   * @returns {Promise<{ interactions: ChatInteraction[]; next_page_token?: string }>} The interactions and the next page token.
+   */
+  listInteractions(
+    threadId: string,
+    params: {
+      limit?: number;
+      next_page_token?: string;
+      order?: "asc" | "desc";
+    } = {}
+  ): Promise<{ interactions: ChatInteraction[]; next_page_token?: string }> {
+    const query = (Object.keys(params) as (keyof typeof params)[])
+      .filter((key) => params[key] !== undefined)
+      .map((key) => `${key}=${encodeURIComponent(String(params[key]))}`)
+      .join("&");
+    return this.request(
+      "GET",
+      `/threads/${encodeURIComponent(threadId)}/interactions${
+        query ? `?${query}` : ""
+      }`
+    );
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const { headers, fetch: fetchImpl = fetch } = this.options;
+    const response = await fetchImpl(`${this.baseURL}${path}`, {
+      method,
+      headers: {
+        Accept: "application/json",
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(typeof headers === "function" ? await headers() : headers),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const text = await response.text();
+    let data: unknown = text;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON, e.g. an error page from a gateway.
+    }
+    if (!response.ok) {
+      const message = (data as { error?: unknown } | undefined)?.error;
+      throw new SuperpoweredApiError(
+        typeof message === "string"
+          ? message
+          : `Request failed with status ${response.status}`,
+        {
+          status: response.status,
+          method,
+          path: path.split("?")[0],
+          body: data,
+        }
+      );
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,224 @@
+import type { KnowledgeBaseAPI } from "./knowledgeBases";
+import { QueryKnowledgeBasesBody, RankedResult } from "./types";
+
+export interface RetrievedDocumentMetadata {
+  document_id: string;
+  knowledge_base_id: string;
+  title: string;
+  link_to_source?: string;
+  supp_id?: string;
+  /** Whether the content is a single chunk or a segment of adjacent chunks (RSE). */
+  result_type: "chunk" | "segment";
+  reranker_score: number;
+  cosine_similarity: number;
+}
+
+/** A retrieved passage in the shape orchestration frameworks use for documents. */
+export interface RetrievedDocument {
+  pageContent: string;
+  metadata: RetrievedDocumentMetadata;
+}
+
+/** Query parameters a retriever sends with every query. */
+export type RetrieverQueryParams = Omit<
+  QueryKnowledgeBasesBody,
+  | "query"
+  | "knowledge_base_ids"
+  | "async"
+  | "summarize_results"
+  | "summary_config"
+  | "summary_system_message"
+  | "json_response"
+>;
+
+export interface SuperpoweredRetrieverOptions extends RetrieverQueryParams {
+  /** The knowledge bases to search. */
+  knowledgeBaseIds: string[];
+  /** Results with a lower `reranker_score` are dropped. */
+  minScore?: number;
+}
+
+/**
+ * Converts a ranked result to a retrieved document.
+ * @param {RankedResult} result - The ranked result.
+ * @returns {RetrievedDocument} The document, with the result's content as `pageContent`.
+ */
+export function toRetrievedDocument(result: RankedResult): RetrievedDocument {
+  const { document, document_id, knowledge_base_id, result_type } =
+    result.metadata;
+  return {
+    pageContent: result.content,
+    metadata: {
+      document_id,
+      knowledge_base_id,
+      title: document.title,
+      link_to_source: document.link_to_source,
+      supp_id: document.supp_id,
+      result_type,
+      reranker_score: result.reranker_score,
+      cosine_similarity: result.cosine_similarity,
+    },
+  };
+}
+
+/**
+ * Retrieves passages from knowledge bases as framework-neutral documents. The
+ * `@shreyaans/superpowered-sdk/langchain` and `/llamaindex` subpaths wrap it in those
+ * frameworks' retriever classes, and `createRetrieverTool` exposes it to LLM function calling.
+ */
+export class SuperpoweredRetriever {
+  constructor(
+    private knowledgeBases: KnowledgeBaseAPI,
+    private options: SuperpoweredRetrieverOptions
+  ) {}
+
+  /**
+   * Queries the knowledge bases and returns the ranked results as documents.
+   * @param {string} query - The query.
+   * @param {Partial<SuperpoweredRetrieverOptions>} [overrides] - Options for this query only, e.g. `top_k`.
+   * @returns {Promise<RetrievedDocument[]>} The documents, best match first.
+   */
+  async getRelevantDocuments(
+    query: string,
+    overrides: Partial<SuperpoweredRetrieverOptions> = {}
+  ): Promise<RetrievedDocument[]> {
+    const { knowledgeBaseIds, minScore, ...params } = {
+      ...this.options,
+      ...overrides,
+    };
+    const { ranked_results } = await this.knowledgeBases.queryKnowledgeBases({
+      ...params,
+      query,
+      knowledge_base_ids: knowledgeBaseIds,
+    });
+    return ranked_results
+      .filter(
+        ({ reranker_score }) =>
+          minScore === undefined || reranker_score >= minScore
+      )
+      .map(toRetrievedDocument);
+  }
+}
+
+/** A JSON Schema for the arguments of a retriever tool. */
+export interface RetrieverToolParameters {
+  type: "object";
+  properties: { query: { type: "string"; description: string } };
+  required: ["query"];
+  additionalProperties: false;
+}
+
+export interface RetrieverTool {
+  name: string;
+  description: string;
+  parameters: RetrieverToolParameters;
+  /**
+   * Runs the tool call and returns the retrieved passages as text for the model.
+   * @param {{ query: string } | string} args - The arguments, parsed or as the JSON string the model produced.
+   * @returns {Promise<string>} The numbered passages with their titles and sources.
+   */
+  execute(args: { query: string } | string): Promise<string>;
+}
+
+export interface RetrieverToolOptions {
+  /** The function name the model calls. Defaults to `search_knowledge_base`. */
+  name?: string;
+  /** Tells the model what the knowledge base contains and when to search it. */
+  description?: string;
+  /** Maximum number of passages returned to the model. Defaults to every result. */
+  maxResults?: number;
+}
+
+function formatPassages(documents: RetrievedDocument[]): string {
+  if (documents.length === 0) {
+    return "No relevant documents found.";
+  }
+  return documents
+    .map(
+      ({ pageContent, metadata }, index) =>
+        `[${index + 1}] ${metadata.title}${
+          metadata.link_to_source ? ` (${metadata.link_to_source})` : ""
+        }\n${pageContent.trim()}`
+    )
+    .join("\n\n");
+}
+
+/**
+ * Creates a function-calling tool that searches the knowledge bases. Pass it to a model
+ * with `toOpenAITool` or `toAnthropicTool`, and answer its calls with `execute`.
+ * @param {SuperpoweredRetriever} retriever - The retriever the tool searches with.
+ * @param {RetrieverToolOptions} [options] - Optional name, description and result limit.
+ * @returns {RetrieverTool} The tool.
+ */
+export function createRetrieverTool(
+  retriever: SuperpoweredRetriever,
+  options: RetrieverToolOptions = {}
+): RetrieverTool {
+  const {
+    name = "search_knowledge_base",
+    description = "Searches the knowledge base and returns the most relevant passages with their sources.",
+    maxResults,
+  } = options;
+
+  return {
+    name,
+    description,
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "A self-contained search query in natural language.",
+        },
+      },
+      required: ["query"],
+      additionalProperties: false,
+    },
+    async execute(args) {
+      // Errors are returned as text, so the model can correct its call.
+      let parsed: { query?: unknown };
+      try {
+        parsed = typeof args === "string" ? JSON.parse(args) : args;
+      } catch {
+        return "The arguments are not valid JSON.";
+      }
+      const query = parsed?.query;
+      if (typeof query !== "string" || !query.trim()) {
+        return "The query argument is required.";
+      }
+      const documents = await retriever.getRelevantDocuments(query);
+      return formatPassages(documents.slice(0, maxResults));
+    },
+  };
+}
+
+/**
+ * Converts a tool to the OpenAI Chat Completions `tools` format.
+ * @param {RetrieverTool} tool - The tool.
+ * @returns {Object} The tool definition.
+ */
+export function toOpenAITool(tool: RetrieverTool): {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: RetrieverToolParameters;
+  };
+} {
+  const { name, description, parameters } = tool;
+  return { type: "function", function: { name, description, parameters } };
+}
+
+/**
+ * Converts a tool to the Anthropic Messages `tools` format.
+ * @param {RetrieverTool} tool - The tool.
+ * @returns {Object} The tool definition.
+ */
+export function toAnthropicTool(tool: RetrieverTool): {
+  name: string;
+  description: string;
+  input_schema: RetrieverToolParameters;
+} {
+  const { name, description, parameters } = tool;
+  return { name, description, input_schema: parameters };
+}
@@ -0,0 +1,205 @@
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  InternalAxiosRequestConfig,
+} from "axios";
+import {
+  RateLimitError,
+  SuperpoweredApiError,
+  parseRetryAfter,
+} from "./errors";
+import { sleep } from "./utils";
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt. Defaults to 3. */
+  maxRetries?: number;
+  /** Delay before the first retry, in milliseconds. Doubles on every retry. Defaults to 500. */
+  baseDelay?: number;
+  /** Upper bound for every delay, including one asked for by `Retry-After`, in milliseconds. Defaults to 30000. */
+  maxDelay?: number;
+  /** Randomize delays to avoid synchronized retries. Defaults to true. */
+  jitter?: boolean;
+  /** Wait for the duration given in a `Retry-After` header, up to `maxDelay`, when present. Defaults to true. */
+  respectRetryAfter?: boolean;
+  /**
+   * POST paths that are safe to retry, such as `/knowledge_bases/query`.
+   * Only idempotent methods are retried otherwise.
+   */
+  retryPostPaths?: (string | RegExp)[];
+}
+
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ERR_NETWORK",
+];
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & {
+  __retryCount?: number;
+};
+
+/**
+ * Fills in defaults for retry options. Passing `false` disables retries.
+ * @param {RetryOptions | false} [options] - The retry options.
+ * @returns {ResolvedRetryOptions} The retry options with every field set.
+ */
+export function resolveRetryOptions(
+  options?: RetryOptions | false
+): ResolvedRetryOptions {
+  return {
+    maxRetries: 3,
+    baseDelay: 500,
+    maxDelay: 30000,
+    jitter: true,
+    respectRetryAfter: true,
+    retryPostPaths: [],
+    ...(options === false ? { maxRetries: 0 } : options),
+  };
+}
+
+/**
+ * Checks whether an error is a transient failure worth retrying: a rate limit,
+ * a 5xx status or a network error such as a socket reset.
+ * @param {unknown} error - The error to check.
+ * @returns {boolean} True if the request can be retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof SuperpoweredApiError) {
+    return error.status === undefined
+      ? isRetryableError(error.cause)
+      : RETRYABLE_STATUSES.indexOf(error.status) !== -1;
+  }
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return false;
+  }
+  if (error.response) {
+    return RETRYABLE_STATUSES.indexOf(error.response.status) !== -1;
+  }
+  return (
+    error.code !== undefined && RETRYABLE_ERROR_CODES.indexOf(error.code) !== -1
+  );
+}
+
+function getRetryAfter(error: unknown): number | undefined {
+  if (error instanceof RateLimitError) {
+    return error.retryAfter;
+  }
+  if (error instanceof SuperpoweredApiError) {
+    return getRetryAfter(error.cause);
+  }
+  if (axios.isAxiosError(error)) {
+    return parseRetryAfter(error.response?.headers?.["retry-after"]);
+  }
+  return undefined;
+}
+
+/**
+ * Computes how long to wait before the next retry.
+ * @param {number} attempt - The number of retries already made.
+ * @param {ResolvedRetryOptions} options - The retry options.
+ * @param {unknown} [error] - The error that triggered the retry, checked for `Retry-After`.
+ * @returns {number} The delay in milliseconds.
+ */
+export function getRetryDelay(
+  attempt: number,
+  options: ResolvedRetryOptions,
+  error?: unknown
+): number {
+  const retryAfter = options.respectRetryAfter
+    ? getRetryAfter(error)
+    : undefined;
+  // Cap the server's request too, so a misbehaving server cannot stall the client indefinitely.
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, options.maxDelay);
+  }
+
+  const delay = Math.min(options.baseDelay * 2 ** attempt, options.maxDelay);
+  return options.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * Runs an operation, retrying it with exponential backoff while it fails with a retryable error.
+ * @param {(attempt: number) => Promise<T>} operation - The operation to run. Receives the retry count.
+ * @param {ResolvedRetryOptions} options - The retry options.
+ * @param {(error: unknown) => boolean} [shouldRetry] - Decides whether an error is retryable.
+ * @param {AbortSignal} [signal] - Cancels the wait between attempts with a `RequestAbortedError`.
+ * @returns {Promise<T>} A promise that resolves to the operation's result.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: ResolvedRetryOptions,
+  shouldRetry: (error: unknown) => boolean = isRetryableError,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt, options, error), signal);
+    }
+  }
+}
+
+function isRetryableRequest(
+  config: InternalAxiosRequestConfig,
+  options: ResolvedRetryOptions
+): boolean {
+  const method = (config.method ?? "GET").toUpperCase();
+  if (IDEMPOTENT_METHODS.indexOf(method) !== -1) {
+    return true;
+  }
+
+  const path = (config.url ?? "").split("?")[0];
+  return (
+    method === "POST" &&
+    options.retryPostPaths.some((pattern) =>
+      typeof pattern === "string" ? pattern === path : pattern.test(path)
+    )
+  );
+}
+
+/**
+ * Adds an interceptor that retries failed requests made through the axios instance.
+ * Must be registered before interceptors that replace axios errors.
+ * @param {AxiosInstance} axiosInstance - The axios instance to retry requests for.
+ * @param {ResolvedRetryOptions} options - The retry options.
+ * @param {(error: AxiosError, delay: number) => void | Promise<void>} [onRetry] - Called before waiting to retry.
+ */
+export function attachRetryInterceptor(
+  axiosInstance: AxiosInstance,
+  options: ResolvedRetryOptions,
+  onRetry?: (error: AxiosError, delay: number) => void | Promise<void>
+): void {
+  axiosInstance.interceptors.response.use(undefined, async (error) => {
+    const config = (error as AxiosError).config as
+      | RetryableRequestConfig
+      | undefined;
+    const retryCount = config?.__retryCount ?? 0;
+
+    if (
+      !config ||
+      retryCount >= options.maxRetries ||
+      !isRetryableRequest(config, options) ||
+      !isRetryableError(error)
+    ) {
+      throw error;
+    }
+
+    const delay = getRetryDelay(retryCount, options, error);
+    await onRetry?.(error, delay);
+    await sleep(delay, config.signal as AbortSignal | undefined);
+    config.__retryCount = retryCount + 1;
+    return axiosInstance.request(config);
+  });
+}
@@ -0,0 +1,529 @@
+import { AxiosInstance } from "axios";
+import {
+  AsyncJobResponse,
+  ChatInteraction,
+  ChatResponse,
+  ChatThread,
+  ChatThreadDefaultOptions,
+  Document,
+  KnowledgeBase,
+  QuerySummary,
+  RankedResult,
+  SearchQuery,
+  SummarizedQueryResponse,
+  WebSearchConfig,
+  WebSearchResult,
+} from "./types";
+import { ResponseValidationError } from "./errors";
+import { resolveOperation } from "./operations";
+
+export type ValidationMode = "off" | "strict" | "lenient";
+
+export interface ValidationIssue {
+  /** Where the mismatch is, e.g. `documents[3].created_on`. */
+  path: string;
+  message: string;
+}
+
+export interface ValidationContext {
+  issues: ValidationIssue[];
+  /** Paths of fields that aren't part of the schema. */
+  unknownFields: string[];
+  /** Remove unknown fields from parsed objects instead of passing them through. */
+  stripUnknown: boolean;
+}
+
+export interface Schema<T> {
+  /** Describes the expected type in issue messages. */
+  readonly description: string;
+  /** Checks a value, recording issues in the context, and returns the parsed value. */
+  parse(value: unknown, path: string, context: ValidationContext): T;
+}
+
+/** Object shape that requires a schema for every property of `T`, optional ones included. */
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(
+  description: string,
+  test: (value: unknown) => boolean
+): Schema<T> {
+  return {
+    description,
+    parse(value, path, context) {
+      if (!test(value)) {
+        context.issues.push({
+          path,
+          message: `expected ${description}, received ${describeValue(value)}`,
+        });
+      }
+      return value as T;
+    },
+  };
+}
+
+export const string = (): Schema<string> =>
+  primitive("string", (value) => typeof value === "string");
+
+export const number = (): Schema<number> =>
+  primitive("number", (value) => typeof value === "number");
+
+export const boolean = (): Schema<boolean> =>
+  primitive("boolean", (value) => typeof value === "boolean");
+
+export const unknown = (): Schema<unknown> => primitive("unknown", () => true);
+
+export function literal<T extends string | number | boolean>(
+  ...values: T[]
+): Schema<T> {
+  return primitive(
+    values.map((value) => JSON.stringify(value)).join(" | "),
+    (value) => values.indexOf(value as T) !== -1
+  );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} | undefined`,
+    parse(value, path, context) {
+      return value === undefined
+        ? undefined
+        : schema.parse(value, path, context);
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    description: `${schema.description} | null`,
+    parse(value, path, context) {
+      return value === null ? null : schema.parse(value, path, context);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    parse(value, path, context) {
+      if (!Array.isArray(value)) {
+        context.issues.push({
+          path,
+          message: `expected array, received ${describeValue(value)}`,
+        });
+        return value as T[];
+      }
+      return value.map((element, index) =>
+        item.parse(element, joinPath(path, index), context)
+      );
+    },
+  };
+}
+
+export function object<T>(shape: Shape<T>, description = "object"): Schema<T> {
+  return {
+    description,
+    parse(value, path, context) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        context.issues.push({
+          path,
+          message: `expected ${description}, received ${describeValue(value)}`,
+        });
+        return value as T;
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) {
+          context.unknownFields.push(joinPath(path, key));
+          if (!context.stripUnknown) {
+            output[key] = input[key];
+          }
+        }
+      }
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        const parsed = shape[key].parse(
+          input[key],
+          joinPath(path, key),
+          context
+        );
+        if (parsed !== undefined || key in input) {
+          output[key] = parsed;
+        }
+      }
+      return output as T;
+    },
+  };
+}
+
+/**
+ * Matches the first schema that parses the value without issues. When neither does, the issues
+ * of the closer match are reported.
+ */
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return {
+    description: `${a.description} | ${b.description}`,
+    parse(value, path, context) {
+      let closest: ValidationContext | undefined;
+      for (const schema of [a, b] as Schema<A | B>[]) {
+        const attempt: ValidationContext = {
+          ...context,
+          issues: [],
+          unknownFields: [],
+        };
+        const parsed = schema.parse(value, path, attempt);
+        if (attempt.issues.length === 0) {
+          context.unknownFields.push(...attempt.unknownFields);
+          return parsed;
+        }
+        if (!closest || attempt.issues.length < closest.issues.length) {
+          closest = attempt;
+        }
+      }
+      context.issues.push(...closest!.issues);
+      return value as A | B;
+    },
+  };
+}
+
+function page<K extends string, T>(
+  key: K,
+  item: Schema<T>
+): Schema<{ [P in K]: T[] } & { next_page_token?: string }> {
+  return object({
+    [key]: array(item),
+    next_page_token: optional(string()),
+  } as unknown as Shape<{ [P in K]: T[] } & { next_page_token?: string }>);
+}
+
+const webSearchConfig = object<WebSearchConfig>({
+  web_search_preset_id: optional(string()),
+  include_domains: optional(array(string())),
+  exclude_domains: optional(array(string())),
+  start_date: optional(string()),
+  end_date: optional(string()),
+  timeframe_days: optional(number()),
+});
+
+const knowledgeBase = object<KnowledgeBase>(
+  {
+    title: string(),
+    language_code: string(),
+    type: literal("unstructured"),
+    supp_id: optional(string()),
+    description: optional(string()),
+    id: string(),
+    created_on: number(),
+    storage_bytes: number(),
+    document_count: number(),
+  },
+  "KnowledgeBase"
+);
+
+const document = object<Document>(
+  {
+    content: optional(string()),
+    title: string(),
+    link_to_source: optional(string()),
+    supp_id: optional(string()),
+    description: optional(string()),
+    chunk_header: optional(string()),
+    vectorization_status: string(),
+    file_name: optional(string()),
+    file_extension: optional(string()),
+    document_type: string(),
+    id: string(),
+    knowledge_base_id: string(),
+    created_on: number(),
+  },
+  "Document"
+);
+
+const searchQuery = object<SearchQuery>(
+  {
+    query: string(),
+    knowledge_bases: array(knowledgeBase),
+  },
+  "SearchQuery"
+);
+
+const webSearchResult = object<WebSearchResult>(
+  {
+    title: string(),
+    url: string(),
+    content: string(),
+  },
+  "WebSearchResult"
+);
+
+const rankedResult = object<RankedResult>(
+  {
+    content: string(),
+    cosine_similarity: number(),
+    metadata: object({
+      document: object({
+        content: string(),
+        title: string(),
+        link_to_source: optional(string()),
+        supp_id: optional(string()),
+        description: optional(string()),
+        chunk_header: optional(string()),
+      }),
+      document_id: string(),
+      knowledge_base_id: string(),
+      account_id: string(),
+      result_type: literal("chunk", "segment"),
+      num_chunks: number(),
+    }),
+    reranker_score: number(),
+  },
+  "RankedResult"
+);
+
+const message = object({ content: string(), timestamp: number() });
+
+const chatInteraction = object<ChatInteraction>(
+  {
+    user_input: message,
+    model_response: message,
+    ranked_results: optional(array(rankedResult)),
+    web_search_results: optional(array(webSearchResult)),
+    search_queries: optional(array(searchQuery)),
+    web_search_queries: optional(array(searchQuery)),
+    references: optional(array(number())),
+    web_search_references: optional(array(number())),
+  },
+  "ChatInteraction"
+);
+
+const chatThreadDefaultOptions = object<ChatThreadDefaultOptions>(
+  {
+    knowledge_base_ids: array(string()),
+    model: string(),
+    temperature: number(),
+    use_rse: boolean(),
+    segment_length: literal("very_short", "short", "medium", "long"),
+    response_length: literal("short", "medium", "long"),
+    system_message: string(),
+    auto_query_guidance: string(),
+    json_response: boolean(),
+    use_web_search: boolean(),
+    web_search_config: optional(webSearchConfig),
+  },
+  "ChatThreadDefaultOptions"
+);
+
+const chatThread = object<ChatThread>(
+  {
+    title: string(),
+    supp_id: optional(string()),
+    default_options: chatThreadDefaultOptions,
+    id: string(),
+    created_on: number(),
+    num_interactions: number(),
+    recent_chat_history: array(chatInteraction),
+  },
+  "ChatThread"
+);
+
+const chatResponse = object<ChatResponse>(
+  {
+    interaction: chatInteraction,
+    search_queries: array(searchQuery),
+    ranked_results: array(rankedResult),
+  },
+  "ChatResponse"
+);
+
+const querySummary = object<QuerySummary<unknown>>(
+  {
+    content: unknown(),
+    references: array(number()),
+    web_search_references: optional(array(number())),
+  },
+  "QuerySummary"
+);
+
+/** Query results, with the summary optional as it is only present when requested. */
+const queryResponse = object<
+  Omit<SummarizedQueryResponse<unknown>, "summary"> & {
+    summary?: QuerySummary<unknown>;
+  }
+>(
+  {
+    ranked_results: array(rankedResult),
+    search_queries: optional(array(searchQuery)),
+    web_search_results: optional(array(webSearchResult)),
+    web_search_queries: optional(array(searchQuery)),
+    summary: optional(querySummary),
+  },
+  "QueryResponse"
+);
+
+/** Async jobs only carry a response once they complete, so it is left unchecked. */
+const asyncJobResponse = object<AsyncJobResponse<unknown>>(
+  {
+    id: string(),
+    created_on: number(),
+    status: string(),
+    status_url: string(),
+    type: string(),
+    expires: number(),
+    response: unknown(),
+  },
+  "AsyncJobResponse"
+);
+
+/**
+ * Schemas for every API object in `types.ts`.
+ */
+export const schemas = {
+  webSearchConfig,
+  knowledgeBase,
+  document,
+  searchQuery,
+  webSearchResult,
+  rankedResult,
+  chatInteraction,
+  chatThreadDefaultOptions,
+  chatThread,
+  chatResponse,
+  querySummary,
+  queryResponse,
+  asyncJobResponse,
+};
+
+const RESPONSE_SCHEMAS: Record<string, Schema<unknown>> = {
+  "knowledgeBase.listKnowledgeBases": page("knowledge_bases", knowledgeBase),
+  "knowledgeBase.createKnowledgeBase": knowledgeBase,
+  "knowledgeBase.queryKnowledgeBases": union(asyncJobResponse, queryResponse),
+  "knowledgeBase.getKnowledgeBase": knowledgeBase,
+  "knowledgeBase.updateKnowledgeBase": knowledgeBase,
+  "document.listDocuments": page("documents", document),
+  "document.requestSignedFileUrl": object({ temporary_url: string() }),
+  "document.createDocumentWithRawText": document,
+  "document.createDocumentFromUrl": document,
+  "document.getDocument": document,
+  "document.updateDocument": document,
+  "chat.listChatThreads": page("threads", chatThread),
+  "chat.createChatThread": chatThread,
+  "chat.getChatThread": chatThread,
+  "chat.updateChatThread": chatThread,
+  "chat.getChatThreadResponse": union(asyncJobResponse, chatResponse),
+  "chat.listChatThreadInteractions": page("interactions", chatInteraction),
+  "job.getJob": asyncJobResponse,
+};
+
+/**
+ * Finds the schema of the response to a request, if the SDK models it.
+ * @param {string} method - The HTTP method.
+ * @param {string} path - The request path.
+ * @returns {Schema<unknown> | undefined} The response schema.
+ */
+export function findResponseSchema(
+  method: string,
+  path: string
+): Schema<unknown> | undefined {
+  const operation = resolveOperation(method, path);
+  return operation ? RESPONSE_SCHEMAS[operation] : undefined;
+}
+
+/**
+ * Validates a value against a schema.
+ * In strict mode mismatches throw and unknown fields are removed; in lenient mode
+ * mismatches and unknown fields are reported to `warn` and the value is returned as is.
+ * @param {Schema<T>} schema - The schema to validate against.
+ * @param {unknown} value - The value to validate.
+ * @param {Exclude<ValidationMode, "off">} mode - The validation mode.
+ * @param {Object} [options] - Optional context for error messages and warnings.
+ * @param {string} [options.source] - What is being validated, e.g. `GET /knowledge_bases`.
+ * @param {(message: string) => void} [options.warn] - Receives warnings in lenient mode. Defaults to `console.warn`.
+ * @returns {T} The validated value.
+ * @throws {ResponseValidationError} In strict mode, if the value does not match the schema.
+ */
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown,
+  mode: Exclude<ValidationMode, "off">,
+  options: { source?: string; warn?: (message: string) => void } = {}
+): T {
+  const { source = "value", warn = console.warn } = options;
+  const context: ValidationContext = {
+    issues: [],
+    unknownFields: [],
+    stripUnknown: mode === "strict",
+  };
+  const parsed = schema.parse(value, "", context);
+
+  if (mode === "strict") {
+    if (context.issues.length > 0) {
+      throw new ResponseValidationError(source, context.issues);
+    }
+    return parsed;
+  }
+
+  for (const issue of context.issues) {
+    warn(
+      `Response from ${source} did not match the schema at ${
+        issue.path || "(root)"
+      }: ${issue.message}`
+    );
+  }
+  if (context.unknownFields.length > 0) {
+    warn(
+      `Response from ${source} has unknown fields: ${context.unknownFields.join(
+        ", "
+      )}`
+    );
+  }
+  return value as T;
+}
+
+/**
+ * Validates the responses of an axios instance against the SDK's schemas.
+ * Streamed responses and requests the SDK doesn't model are passed through.
+ * @param {AxiosInstance} instance - The axios instance to validate responses of.
+ * @param {Exclude<ValidationMode, "off">} mode - The validation mode.
+ * @param {(message: string) => void} [warn] - Receives warnings in lenient mode.
+ */
+export function attachValidationInterceptor(
+  instance: AxiosInstance,
+  mode: Exclude<ValidationMode, "off">,
+  warn?: (message: string) => void
+): void {
+  // Retried requests pass through the interceptors again, so their responses come back twice.
+  const validated = new WeakSet<object>();
+  instance.interceptors.response.use((response) => {
+    const { config, data } = response;
+    // Other bodies are validated too, so a string or HTML body fails in strict mode.
+    if (validated.has(response) || config.responseType === "stream") {
+      return response;
+    }
+
+    const method = (config.method ?? "get").toUpperCase();
+    const path = (config.url ?? "").split("?")[0];
+    const schema = findResponseSchema(method, path);
+    if (schema) {
+      response.data = validate(schema, data, mode, {
+        source: `${method} ${path}`,
+        warn,
+      });
+    }
+    validated.add(response);
+    return response;
+  });
+}
@@ -0,0 +1,133 @@
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+type StreamChunk = Uint8Array | string;
+
+/**
+ * Adapts the body of a streamed response to an async iterable of chunks. Accepts Node.js
+ * readable streams (already async iterable) as well as web `ReadableStream`s.
+ * @param {unknown} body - The response body.
+ * @returns {AsyncIterable<StreamChunk>} The chunks of the body.
+ */
+export function toChunkIterable(body: unknown): AsyncIterable<StreamChunk> {
+  if (
+    typeof body === "object" &&
+    body !== null &&
+    Symbol.asyncIterator in body
+  ) {
+    return body as AsyncIterable<StreamChunk>;
+  }
+  if (
+    typeof body === "object" &&
+    body !== null &&
+    typeof (body as ReadableStream).getReader === "function"
+  ) {
+    const reader = (body as ReadableStream<StreamChunk>).getReader();
+    return {
+      async *[Symbol.asyncIterator]() {
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+              return;
+            }
+            yield value;
+          }
+        } finally {
+          reader.releaseLock();
+        }
+      },
+    };
+  }
+  if (typeof body === "string") {
+    return {
+      async *[Symbol.asyncIterator]() {
+        yield body;
+      },
+    };
+  }
+  throw new TypeError("Response body is not a readable stream");
+}
+
+/**
+ * Reads a streamed response body to the end and decodes it as UTF-8 text.
+ * @param {unknown} body - The response body.
+ * @returns {Promise<string>} The decoded body.
+ */
+export async function readStreamText(body: unknown): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of toChunkIterable(body)) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Parses a stream of `text/event-stream` chunks into server-sent events.
+ * @param {AsyncIterable<StreamChunk>} chunks - The raw chunks of the response body.
+ * @returns {AsyncIterableIterator<ServerSentEvent>} The parsed events.
+ */
+export async function* parseServerSentEvents(
+  chunks: AsyncIterable<StreamChunk>
+): AsyncIterableIterator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: Partial<ServerSentEvent> = {};
+  let data: string[] = [];
+
+  const lines = async function* () {
+    for await (const chunk of chunks) {
+      buffer +=
+        typeof chunk === "string"
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+      // A trailing `\r` may be the first half of a `\r\n` split across chunks, so keep it
+      // in the buffer rather than ending the line (and the event) early.
+      const pendingCR = buffer.endsWith("\r");
+      const parts = (pendingCR ? buffer.slice(0, -1) : buffer).split(
+        /\r\n|\r|\n/
+      );
+      buffer = (parts.pop() ?? "") + (pendingCR ? "\r" : "");
+      yield* parts;
+    }
+    buffer += decoder.decode();
+    if (buffer) {
+      yield* buffer.split(/\r\n|\r|\n/);
+    }
+    yield "";
+  };
+
+  for await (const line of lines()) {
+    if (line === "") {
+      if (data.length > 0) {
+        yield { ...event, data: data.join("\n") };
+      }
+      event = {};
+      data = [];
+      continue;
+    }
+    if (line.startsWith(":")) {
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value =
+      separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "data") {
+      data.push(value);
+    } else if (field === "event") {
+      event.event = value;
+    } else if (field === "id") {
+      event.id = value;
+    }
+  }
+}
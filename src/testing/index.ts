@@ -0,0 +1,7 @@
+export { MockSuperpoweredServer } from "./mockServer";
+export type {
+  MockFailure,
+  MockRequest,
+  MockResponse,
+  MockServerOptions,
+} from "./mockServer";
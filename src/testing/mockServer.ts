@@ -0,0 +1,882 @@
+import http from "http";
+import crypto from "crypto";
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import {
+  AsyncJobResponse,
+  ChatInteraction,
+  ChatThread,
+  Document,
+  KnowledgeBase,
+  RankedResult,
+} from "../types";
+
+export interface MockRequest {
+  method: string;
+  /** The request path, without the `/v1` prefix and query string. */
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface MockFailure {
+  /** HTTP method to fail, e.g. `POST`. Matches every method if omitted. */
+  method?: string;
+  /** Path to fail, without the `/v1` prefix. Matches every path if omitted. */
+  path?: string | RegExp;
+  /** The status to respond with. */
+  status: number;
+  /** The response body. Defaults to `{ error: "Injected failure" }`. */
+  body?: unknown;
+  /** The response headers, e.g. `{ "retry-after": "1" }`. */
+  headers?: Record<string, string>;
+  /** How many matching requests should fail. Defaults to 1. */
+  times?: number;
+}
+
+export interface MockServerOptions {
+  /** Default page size for list endpoints. Defaults to 100. */
+  pageSize?: number;
+  /** Number of job polls before an async job completes. Defaults to 1. */
+  jobPolls?: number;
+  /** Number of document reads before a new document is vectorized. Defaults to 0. */
+  vectorizationPolls?: number;
+  /** Origin used for status and signed upload URLs. */
+  origin?: string;
+  /** Whether chat responses are streamed when requested. When false, they are returned as JSON. Defaults to true. */
+  streaming?: boolean;
+}
+
+interface PendingUpload {
+  knowledgeBaseId: string;
+  md5: string;
+  fields: Record<string, unknown>;
+}
+
+interface MockJob extends AsyncJobResponse<unknown> {
+  polls: number;
+}
+
+type RouteHandler = (
+  request: MockRequest,
+  params: string[]
+) => MockResponse | Promise<MockResponse>;
+
+function notFound(what: string): MockResponse {
+  return { status: 404, body: { error: `${what} not found` } };
+}
+
+function badRequest(message: string): MockResponse {
+  return { status: 400, body: { error: message } };
+}
+
+/**
+ * In-memory stand-in for the Superpowered API. Plug `server.adapter` into the client's
+ * `adapter` option, or call `listen()` to serve the same routes over HTTP.
+ */
+export class MockSuperpoweredServer {
+  public knowledgeBases = new Map<string, KnowledgeBase>();
+  public documents = new Map<string, Document & { reads?: number }>();
+  public threads = new Map<string, ChatThread>();
+  public interactions = new Map<string, ChatInteraction[]>();
+  public jobs = new Map<string, MockJob>();
+  /** Every request received, in order. */
+  public requests: MockRequest[] = [];
+
+  private failures: MockFailure[] = [];
+  private uploads = new Map<string, PendingUpload>();
+  private nextId = 1;
+  private options: Required<MockServerOptions>;
+  private routes: [string, RegExp, RouteHandler][] = [];
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = {
+      pageSize: 100,
+      jobPolls: 1,
+      vectorizationPolls: 0,
+      origin: "https://mock.superpowered.test",
+      streaming: true,
+      ...options,
+    };
+    this.registerRoutes();
+  }
+
+  /**
+   * Makes the next matching requests fail with the given status and body.
+   * @param {MockFailure} failure - The failure to inject.
+   */
+  failNext(failure: MockFailure): void {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  /**
+   * Clears all data, recorded requests and pending failures.
+   */
+  reset(): void {
+    this.knowledgeBases.clear();
+    this.documents.clear();
+    this.threads.clear();
+    this.interactions.clear();
+    this.jobs.clear();
+    this.uploads.clear();
+    this.requests = [];
+    this.failures = [];
+  }
+
+  /**
+   * Axios adapter that answers requests from the in-memory state.
+   */
+  adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    const url = new URL(
+      /^https?:\/\//.test(config.url ?? "")
+        ? config.url!
+        : `${(config.baseURL ?? this.options.origin).replace(/\/$/, "")}${
+            config.url ?? ""
+          }`
+    );
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => (query[key] = value));
+    const params = (config.params ?? {}) as Record<string, unknown>;
+    for (const key of Object.keys(params)) {
+      if (params[key] !== undefined && params[key] !== null) {
+        query[key] = String(params[key]);
+      }
+    }
+
+    const rawHeaders = config.headers.toJSON() as Record<string, unknown>;
+    const headers: Record<string, string> = {};
+    for (const key of Object.keys(rawHeaders)) {
+      headers[key.toLowerCase()] = String(rawHeaders[key]);
+    }
+
+    // Streamed upload bodies are read in full, as the HTTP server would.
+    let requestBody: unknown = config.data;
+    if (
+      typeof requestBody === "object" &&
+      requestBody !== null &&
+      !Buffer.isBuffer(requestBody) &&
+      Symbol.asyncIterator in requestBody
+    ) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of requestBody as AsyncIterable<Buffer>) {
+        chunks.push(Buffer.from(chunk));
+      }
+      requestBody = Buffer.concat(chunks);
+    }
+
+    const {
+      status,
+      body,
+      headers: responseHeaders = {},
+    } = await this.handle({
+      method: (config.method ?? "get").toUpperCase(),
+      path: url.pathname,
+      query,
+      headers,
+      body: requestBody,
+    });
+
+    // Streamed responses arrive as raw text, like the body of an HTTP response.
+    const streamed =
+      config.responseType === "stream" &&
+      typeof body !== "string" &&
+      body !== undefined;
+    const response: AxiosResponse = {
+      status,
+      statusText: String(status),
+      headers: streamed
+        ? { "content-type": "application/json", ...responseHeaders }
+        : responseHeaders,
+      config,
+      data: streamed ? JSON.stringify(body) : body,
+    };
+    const validateStatus =
+      config.validateStatus ?? ((s) => s >= 200 && s < 300);
+    if (!validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500
+          ? AxiosError.ERR_BAD_RESPONSE
+          : AxiosError.ERR_BAD_REQUEST,
+        config,
+        undefined,
+        response
+      );
+    }
+    return response;
+  };
+
+  /**
+   * Serves the mock API over HTTP on `127.0.0.1`. Status and signed upload URLs point at the server.
+   * @param {number} [port] - The port to listen on. Defaults to a random free port.
+   * @returns {Promise<{ baseURL: string; close: () => Promise<void> }>} The API base URL and a function that stops the server.
+   */
+  async listen(
+    port: number = 0
+  ): Promise<{ baseURL: string; close: () => Promise<void> }> {
+    const server = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      const raw = Buffer.concat(chunks);
+      const url = new URL(req.url ?? "/", this.options.origin);
+      const query: Record<string, string> = {};
+      url.searchParams.forEach((value, key) => (query[key] = value));
+      const isJson = (req.headers["content-type"] ?? "").includes("json");
+
+      const {
+        status,
+        body,
+        headers = {},
+      } = await this.handle({
+        method: req.method ?? "GET",
+        path: url.pathname,
+        query,
+        headers: req.headers as Record<string, string>,
+        body: isJson && raw.length ? raw.toString("utf8") : raw,
+      });
+
+      const isText = typeof body === "string";
+      res.writeHead(status, {
+        "content-type": isText ? "text/plain" : "application/json",
+        ...headers,
+      });
+      res.end(
+        body === undefined ? undefined : isText ? body : JSON.stringify(body)
+      );
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(port, "127.0.0.1", resolve)
+    );
+    const address = server.address() as { port: number };
+    this.options.origin = `http://127.0.0.1:${address.port}`;
+
+    return {
+      baseURL: `${this.options.origin}/v1`,
+      close: () =>
+        new Promise<void>((resolve, reject) =>
+          server.close((error) => (error ? reject(error) : resolve()))
+        ),
+    };
+  }
+
+  /**
+   * Handles a request against the in-memory state.
+   * @param {MockRequest} request - The request. JSON string bodies are parsed.
+   * @returns {Promise<MockResponse>} The response.
+   */
+  async handle(request: MockRequest): Promise<MockResponse> {
+    const path = request.path.replace(/^\/v1(?=\/)/, "");
+    let body = request.body;
+    if (typeof body === "string" && body.length > 0) {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Not JSON, e.g. an uploaded text file.
+      }
+    }
+    const normalized = { ...request, path, body };
+    this.requests.push(normalized);
+
+    const failureIndex = this.failures.findIndex(
+      (failure) =>
+        (!failure.method || failure.method.toUpperCase() === request.method) &&
+        (!failure.path ||
+          (typeof failure.path === "string"
+            ? failure.path === path
+            : failure.path.test(path)))
+    );
+    if (failureIndex !== -1) {
+      const failure = this.failures[failureIndex];
+      failure.times = (failure.times ?? 1) - 1;
+      if (failure.times <= 0) {
+        this.failures.splice(failureIndex, 1);
+      }
+      return {
+        status: failure.status,
+        body: failure.body ?? { error: "Injected failure" },
+        headers: failure.headers,
+      };
+    }
+
+    for (const [method, pattern, handler] of this.routes) {
+      const match = pattern.exec(path);
+      if (method === request.method && match) {
+        return handler(normalized, match.slice(1).map(decodeURIComponent));
+      }
+    }
+    return notFound(`Route ${request.method} ${path}`);
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_${this.nextId++}`;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private route(method: string, path: string, handler: RouteHandler): void {
+    const pattern = new RegExp(`^${path.replace(/:\w+/g, "([^/]+)")}$`);
+    this.routes.push([method, pattern, handler.bind(this)]);
+  }
+
+  private paginate<T>(
+    items: T[],
+    query: Record<string, string>,
+    key: string
+  ): MockResponse {
+    const limit = Number(query.limit ?? this.options.pageSize);
+    const start = Number(query.next_page_token ?? 0);
+    const end = start + limit;
+    return {
+      status: 200,
+      body: {
+        [key]: items.slice(start, end),
+        ...(end < items.length ? { next_page_token: String(end) } : {}),
+      },
+    };
+  }
+
+  private createJob(type: string, response: unknown): MockResponse {
+    const id = this.id("job");
+    const job: MockJob = {
+      id,
+      created_on: this.now(),
+      status: "PENDING",
+      status_url: `${this.options.origin}/v1/jobs/${id}`,
+      type,
+      expires: this.now() + 3600,
+      response: undefined,
+      polls: 0,
+    };
+    this.jobs.set(id, { ...job, response });
+    const { polls, ...publicJob } = job;
+    return { status: 202, body: publicJob };
+  }
+
+  private addDocument(
+    knowledgeBaseId: string,
+    fields: Partial<Document>
+  ): Document {
+    const document: Document & { reads?: number } = {
+      title: fields.file_name ?? "Untitled",
+      document_type: "unstructured",
+      ...fields,
+      id: this.id("doc"),
+      knowledge_base_id: knowledgeBaseId,
+      created_on: this.now(),
+      vectorization_status:
+        this.options.vectorizationPolls > 0 ? "IN_PROGRESS" : "COMPLETE",
+      reads: 0,
+    };
+    this.documents.set(document.id, document);
+    const knowledgeBase = this.knowledgeBases.get(knowledgeBaseId);
+    if (knowledgeBase) {
+      knowledgeBase.document_count++;
+    }
+    return this.readDocument(document, false);
+  }
+
+  /**
+   * Returns a document as the API would, advancing its vectorization on every read.
+   */
+  private readDocument(
+    document: Document & { reads?: number },
+    includeContent: boolean
+  ): Document {
+    document.reads = (document.reads ?? 0) + 1;
+    if (
+      document.vectorization_status === "IN_PROGRESS" &&
+      document.reads > this.options.vectorizationPolls
+    ) {
+      document.vectorization_status = "COMPLETE";
+    }
+    const { reads, content, ...publicDocument } = document;
+    return includeContent ? { ...publicDocument, content } : publicDocument;
+  }
+
+  private search(
+    query: string,
+    knowledgeBaseIds: string[],
+    topK: number = 5
+  ): RankedResult[] {
+    const terms = query.toLowerCase().split(/\W+/).filter(Boolean);
+    const results: RankedResult[] = [];
+
+    this.documents.forEach((document) => {
+      if (knowledgeBaseIds.indexOf(document.knowledge_base_id) === -1) {
+        return;
+      }
+      const text = `${document.title} ${document.content ?? ""}`;
+      const words = text.toLowerCase().split(/\W+/);
+      const hits = terms.filter((term) => words.indexOf(term) !== -1).length;
+      if (hits === 0) {
+        return;
+      }
+
+      const score = hits / terms.length;
+      results.push({
+        content: document.content ?? document.title,
+        cosine_similarity: score,
+        reranker_score: score,
+        metadata: {
+          document: {
+            content: document.content ?? "",
+            title: document.title,
+            link_to_source: document.link_to_source,
+            supp_id: document.supp_id,
+            description: document.description,
+            chunk_header: document.chunk_header,
+          },
+          document_id: document.id,
+          knowledge_base_id: document.knowledge_base_id,
+          account_id: "mock_account",
+          result_type: "chunk",
+          num_chunks: 1,
+        },
+      });
+    });
+
+    return results
+      .sort((a, b) => b.reranker_score - a.reranker_score)
+      .slice(0, topK);
+  }
+
+  private registerRoutes(): void {
+    this.route("GET", "/knowledge_bases", ({ query }) => {
+      const knowledgeBases = Array.from(this.knowledgeBases.values()).filter(
+        (kb) =>
+          (!query.title_begins_with ||
+            kb.title.startsWith(query.title_begins_with)) &&
+          (!query.supp_id || kb.supp_id === query.supp_id)
+      );
+      return this.paginate(knowledgeBases, query, "knowledge_bases");
+    });
+
+    this.route("POST", "/knowledge_bases", ({ body }) => {
+      const data = body as Partial<KnowledgeBase>;
+      if (!data?.title) {
+        return badRequest("title is required");
+      }
+      const knowledgeBase: KnowledgeBase = {
+        language_code: "en",
+        type: "unstructured",
+        ...data,
+        title: data.title,
+        id: this.id("kb"),
+        created_on: this.now(),
+        storage_bytes: 0,
+        document_count: 0,
+      };
+      this.knowledgeBases.set(knowledgeBase.id, knowledgeBase);
+      return { status: 200, body: knowledgeBase };
+    });
+
+    this.route("POST", "/knowledge_bases/query", ({ body }) => {
+      const data = body as {
+        query: string;
+        knowledge_base_ids: string[];
+        top_k?: number;
+        summarize_results?: boolean;
+        json_response?: boolean;
+        async?: boolean;
+      };
+      const ranked_results = this.search(
+        data.query,
+        data.knowledge_base_ids,
+        data.top_k
+      );
+      const response = {
+        ranked_results,
+        search_queries: [],
+        ...(data.summarize_results
+          ? {
+              summary: {
+                content: data.json_response
+                  ? { answer: `Summary of ${ranked_results.length} results` }
+                  : `Summary of ${ranked_results.length} results`,
+                references: ranked_results.map((_, index) => index),
+              },
+            }
+          : {}),
+      };
+      return data.async
+        ? this.createJob("knowledge_base_query", response)
+        : { status: 200, body: response };
+    });
+
+    this.route("GET", "/knowledge_bases/:id", (_, [id]) => {
+      const knowledgeBase = this.knowledgeBases.get(id);
+      return knowledgeBase
+        ? { status: 200, body: knowledgeBase }
+        : notFound(`Knowledge base ${id}`);
+    });
+
+    this.route("PATCH", "/knowledge_bases/:id", ({ body }, [id]) => {
+      const knowledgeBase = this.knowledgeBases.get(id);
+      if (!knowledgeBase) {
+        return notFound(`Knowledge base ${id}`);
+      }
+      Object.assign(knowledgeBase, body);
+      return { status: 200, body: knowledgeBase };
+    });
+
+    this.route("DELETE", "/knowledge_bases/:id", (_, [id]) => {
+      if (!this.knowledgeBases.delete(id)) {
+        return notFound(`Knowledge base ${id}`);
+      }
+      this.documents.forEach((document, documentId) => {
+        if (document.knowledge_base_id === id) {
+          this.documents.delete(documentId);
+        }
+      });
+      return { status: 200, body: {} };
+    });
+
+    this.route("GET", "/knowledge_bases/:id/documents", ({ query }, [id]) => {
+      if (!this.knowledgeBases.has(id)) {
+        return notFound(`Knowledge base ${id}`);
+      }
+      const documents = Array.from(this.documents.values())
+        .filter(
+          (document) =>
+            document.knowledge_base_id === id &&
+            (!query.title_begins_with ||
+              document.title.startsWith(query.title_begins_with)) &&
+            (!query.supp_id || document.supp_id === query.supp_id) &&
+            (!query.status || document.vectorization_status === query.status) &&
+            (!query.link_to_source ||
+              document.link_to_source === query.link_to_source)
+        )
+        .map((document) => this.readDocument(document, false));
+      return this.paginate(documents, query, "documents");
+    });
+
+    this.route(
+      "POST",
+      "/knowledge_bases/:id/documents/raw_text",
+      ({ body }, [id]) => {
+        if (!this.knowledgeBases.has(id)) {
+          return notFound(`Knowledge base ${id}`);
+        }
+        const data = body as Partial<Document>;
+        if (!data?.content || !data.title) {
+          return badRequest("content and title are required");
+        }
+        return {
+          status: 200,
+          body: this.addDocument(id, { ...data, document_type: "raw_text" }),
+        };
+      }
+    );
+
+    this.route(
+      "POST",
+      "/knowledge_bases/:id/documents/url",
+      ({ body }, [id]) => {
+        if (!this.knowledgeBases.has(id)) {
+          return notFound(`Knowledge base ${id}`);
+        }
+        const { url, ...data } = body as Partial<Document> & { url?: string };
+        if (!url) {
+          return badRequest("url is required");
+        }
+        return {
+          status: 200,
+          body: this.addDocument(id, {
+            title: url,
+            link_to_source: url,
+            content: `Content of ${url}`,
+            ...data,
+            document_type: "url",
+          }),
+        };
+      }
+    );
+
+    this.route(
+      "POST",
+      "/knowledge_bases/:id/documents/request_signed_file_url",
+      ({ body }, [id]) => {
+        if (!this.knowledgeBases.has(id)) {
+          return notFound(`Knowledge base ${id}`);
+        }
+        const { encoded_md5, ...fields } = body as Record<string, unknown>;
+        const token = crypto.randomBytes(8).toString("hex");
+        this.uploads.set(token, {
+          knowledgeBaseId: id,
+          md5: String(encoded_md5),
+          fields,
+        });
+        return {
+          status: 200,
+          body: { temporary_url: `${this.options.origin}/uploads/${token}` },
+        };
+      }
+    );
+
+    this.route("PUT", "/uploads/:token", ({ body, headers }, [token]) => {
+      const upload = this.uploads.get(token);
+      if (!upload) {
+        return { status: 403, body: "Request has expired" };
+      }
+
+      const content = Buffer.isBuffer(body)
+        ? body
+        : body instanceof ArrayBuffer
+        ? Buffer.from(body)
+        : ArrayBuffer.isView(body)
+        ? Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+        : Buffer.from(typeof body === "string" ? body : JSON.stringify(body));
+      const md5 = crypto.createHash("md5").update(content).digest("base64");
+      if (md5 !== upload.md5 || headers["content-md5"] !== upload.md5) {
+        return badRequest("Content-MD5 does not match");
+      }
+
+      const fields = upload.fields as {
+        filename: string;
+        is_update?: boolean;
+        supp_id?: string;
+        description?: string;
+        link_to_source?: string;
+        chunk_header?: string;
+      };
+      const existing = Array.from(this.documents.values()).find(
+        (document) =>
+          document.knowledge_base_id === upload.knowledgeBaseId &&
+          document.file_name === fields.filename
+      );
+      if (existing && !fields.is_update) {
+        return {
+          status: 400,
+          body: {
+            error: `File ${fields.filename} already exists in knowledge base`,
+            existing_document_id: existing.id,
+          },
+        };
+      }
+      if (existing) {
+        this.documents.delete(existing.id);
+      }
+
+      this.uploads.delete(token);
+      this.addDocument(upload.knowledgeBaseId, {
+        title: fields.filename.split("/").pop(),
+        file_name: fields.filename,
+        file_extension: fields.filename.split(".").pop(),
+        supp_id: fields.supp_id,
+        description: fields.description,
+        link_to_source: fields.link_to_source,
+        chunk_header: fields.chunk_header,
+        content: content.toString("utf8"),
+        document_type: "file",
+      });
+      return { status: 200 };
+    });
+
+    this.route(
+      "GET",
+      "/knowledge_bases/:id/documents/:documentId",
+      ({ query }, [id, documentId]) => {
+        const document = this.documents.get(documentId);
+        return document && document.knowledge_base_id === id
+          ? {
+              status: 200,
+              body: this.readDocument(
+                document,
+                query.include_content === "true"
+              ),
+            }
+          : notFound(`Document ${documentId}`);
+      }
+    );
+
+    this.route(
+      "PATCH",
+      "/knowledge_bases/:id/documents/:documentId",
+      ({ body }, [id, documentId]) => {
+        const document = this.documents.get(documentId);
+        if (!document || document.knowledge_base_id !== id) {
+          return notFound(`Document ${documentId}`);
+        }
+        Object.assign(document, body);
+        return { status: 200, body: this.readDocument(document, false) };
+      }
+    );
+
+    this.route(
+      "DELETE",
+      "/knowledge_bases/:id/documents/:documentId",
+      (_, [id, documentId]) => {
+        const document = this.documents.get(documentId);
+        if (!document || document.knowledge_base_id !== id) {
+          return notFound(`Document ${documentId}`);
+        }
+        this.documents.delete(documentId);
+        const knowledgeBase = this.knowledgeBases.get(id);
+        if (knowledgeBase) {
+          knowledgeBase.document_count--;
+        }
+        return { status: 200, body: {} };
+      }
+    );
+
+    this.route("GET", "/chat/threads", ({ query }) => {
+      const threads = Array.from(this.threads.values()).filter(
+        (thread) => !query.supp_id || thread.supp_id === query.supp_id
+      );
+      return this.paginate(threads, query, "threads");
+    });
+
+    this.route("POST", "/chat/threads", ({ body }) => {
+      const data = (body ?? {}) as Partial<ChatThread>;
+      const thread: ChatThread = {
+        title: "",
+        ...data,
+        default_options: {
+          knowledge_base_ids: [],
+          model: "gpt-4o",
+          temperature: 0.1,
+          use_rse: true,
+          segment_length: "medium",
+          response_length: "medium",
+          system_message: "",
+          auto_query_guidance: "",
+          json_response: false,
+          use_web_search: false,
+          ...data.default_options,
+        },
+        id: this.id("thread"),
+        created_on: this.now(),
+        num_interactions: 0,
+        recent_chat_history: [],
+      };
+      this.threads.set(thread.id, thread);
+      this.interactions.set(thread.id, []);
+      return { status: 200, body: thread };
+    });
+
+    this.route("GET", "/chat/threads/:id", (_, [id]) => {
+      const thread = this.threads.get(id);
+      return thread ? { status: 200, body: thread } : notFound(`Thread ${id}`);
+    });
+
+    this.route("PATCH", "/chat/threads/:id", ({ body }, [id]) => {
+      const thread = this.threads.get(id);
+      if (!thread) {
+        return notFound(`Thread ${id}`);
+      }
+      const { default_options, ...data } = (body ?? {}) as Partial<ChatThread>;
+      Object.assign(thread, data, {
+        default_options: { ...thread.default_options, ...default_options },
+      });
+      return { status: 200, body: thread };
+    });
+
+    this.route("DELETE", "/chat/threads/:id", (_, [id]) => {
+      if (!this.threads.delete(id)) {
+        return notFound(`Thread ${id}`);
+      }
+      this.interactions.delete(id);
+      return { status: 200, body: {} };
+    });
+
+    this.route("POST", "/chat/threads/:id/get_response", ({ body }, [id]) => {
+      const thread = this.threads.get(id);
+      if (!thread) {
+        return notFound(`Thread ${id}`);
+      }
+      const data = body as {
+        input?: string;
+        async?: boolean;
+        stream?: boolean;
+        knowledge_base_ids?: string[];
+      };
+      if (!data?.input) {
+        return badRequest("input is required");
+      }
+
+      const ranked_results = this.search(
+        data.input,
+        data.knowledge_base_ids ?? thread.default_options.knowledge_base_ids
+      );
+      const interaction: ChatInteraction = {
+        user_input: { content: data.input, timestamp: this.now() },
+        model_response: {
+          content: `Mock response to: ${data.input}`,
+          timestamp: this.now(),
+        },
+        ranked_results,
+        search_queries: [],
+        references: ranked_results.map((_, index) => index),
+      };
+      this.interactions.get(id)!.push(interaction);
+      thread.num_interactions++;
+      thread.recent_chat_history = this.interactions.get(id)!.slice(-5);
+
+      const response = { interaction, search_queries: [], ranked_results };
+      if (data.stream && this.options.streaming) {
+        const words = interaction.model_response.content.split(/(?= )/);
+        const events = [
+          ["search_queries", []],
+          ["ranked_results", ranked_results],
+          ...words.map((word) => ["text_delta", { delta: word }]),
+          ["interaction", interaction],
+        ];
+        return {
+          status: 200,
+          headers: { "content-type": "text/event-stream" },
+          body: events
+            .map(
+              ([event, payload]) =>
+                `event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`
+            )
+            .join(""),
+        };
+      }
+      return data.async
+        ? this.createJob("chat_thread_response", response)
+        : { status: 200, body: response };
+    });
+
+    this.route("GET", "/chat/threads/:id/interactions", ({ query }, [id]) => {
+      const interactions = this.interactions.get(id);
+      if (!interactions) {
+        return notFound(`Thread ${id}`);
+      }
+      const ordered =
+        query.order === "desc" ? interactions.slice().reverse() : interactions;
+      return this.paginate(ordered, query, "interactions");
+    });
+
+    this.route("GET", "/jobs/:id", (_, [id]) => {
+      const job = this.jobs.get(id);
+      if (!job) {
+        return notFound(`Job ${id}`);
+      }
+      job.polls++;
+      const complete = job.polls >= this.options.jobPolls;
+      const { polls, response, ...publicJob } = job;
+      return {
+        status: 200,
+        body: complete
+          ? { ...publicJob, status: "COMPLETE", response }
+          : { ...publicJob, status: "IN_PROGRESS" },
+      };
+    });
+  }
+}
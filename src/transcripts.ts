@@ -0,0 +1,237 @@
+import { resolveSources } from "./citations";
+import { InvalidTranscriptError } from "./errors";
+import { ChatInteraction, ChatThread } from "./types";
+import {
+  escapeMarkdownText,
+  escapeMarkdownUrl,
+  isWebUrl,
+  toMillis,
+} from "./utils";
+
+/** Version of the transcript format written by `formatTranscript`. */
+export const TRANSCRIPT_VERSION = 1;
+
+export type TranscriptFormat = "json" | "jsonl" | "markdown";
+
+export interface ChatTranscript {
+  version: number;
+  /** When the transcript was exported, in milliseconds since the epoch. */
+  exported_on: number;
+  /** The thread, without its recent history, which `interactions` covers. */
+  thread: Omit<ChatThread, "recent_chat_history">;
+  /** Every interaction of the thread, oldest first. */
+  interactions: ChatInteraction[];
+}
+
+export interface TranscriptReplayFailure {
+  /** The position of the interaction in the transcript. */
+  index: number;
+  /** The user input that could not be replayed. */
+  input: string;
+  errorMessage: string;
+}
+
+export interface TranscriptImportReport {
+  /** The thread created for the import. */
+  thread: ChatThread;
+  /** The interactions recorded in the new thread, in transcript order. */
+  replayed: ChatInteraction[];
+  /** The interactions that could not be replayed. */
+  failed: TranscriptReplayFailure[];
+}
+
+/**
+ * Builds a transcript from a thread and its interactions.
+ * @param {ChatThread} thread - The chat thread.
+ * @param {ChatInteraction[]} interactions - Every interaction of the thread, oldest first.
+ * @returns {ChatTranscript} The transcript.
+ */
+export function createTranscript(
+  thread: ChatThread,
+  interactions: ChatInteraction[]
+): ChatTranscript {
+  const { recent_chat_history, ...rest } = thread;
+  return {
+    version: TRANSCRIPT_VERSION,
+    exported_on: Date.now(),
+    thread: rest,
+    interactions,
+  };
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(toMillis(timestamp)).toISOString();
+}
+
+function formatMarkdown({
+  thread,
+  interactions,
+  exported_on,
+}: ChatTranscript): string {
+  const lines = [
+    `# ${escapeMarkdownText(thread.title || "Untitled thread")}`,
+    "",
+    `- Thread ID: ${thread.id}`,
+    ...(thread.supp_id ? [`- Supp ID: ${thread.supp_id}`] : []),
+    `- Created: ${formatTimestamp(thread.created_on)}`,
+    `- Exported: ${formatTimestamp(exported_on)}`,
+    `- Interactions: ${interactions.length}`,
+    "",
+    "## Default options",
+    "",
+    "```json",
+    JSON.stringify(thread.default_options, null, 2),
+    "```",
+  ];
+
+  interactions.forEach((interaction, index) => {
+    const { user_input, model_response } = interaction;
+    lines.push(
+      "",
+      `## ${index + 1}. User (${formatTimestamp(user_input.timestamp)})`,
+      "",
+      user_input.content,
+      "",
+      `### Assistant (${formatTimestamp(model_response.timestamp)})`,
+      "",
+      model_response.content
+    );
+
+    const sources = resolveSources(interaction);
+    if (sources.length > 0) {
+      lines.push("", "#### Sources", "");
+      for (const { number, title, url, excerpt } of sources) {
+        const label = !url
+          ? escapeMarkdownText(title)
+          : isWebUrl(url)
+          ? `[${escapeMarkdownText(title)}](${escapeMarkdownUrl(url)})`
+          : `${escapeMarkdownText(title)} (${escapeMarkdownText(url)})`;
+        lines.push(`${number}. ${label}${excerpt ? ` — "${excerpt}"` : ""}`);
+      }
+    }
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Serializes a transcript. JSON and JSONL transcripts can be imported again; Markdown is for reading.
+ * @param {ChatTranscript} transcript - The transcript.
+ * @param {TranscriptFormat} [format] - `json`, `jsonl` or `markdown`. Defaults to `json`.
+ * @returns {string} The serialized transcript.
+ */
+export function formatTranscript(
+  transcript: ChatTranscript,
+  format: TranscriptFormat = "json"
+): string {
+  switch (format) {
+    case "jsonl": {
+      const { interactions, ...header } = transcript;
+      return `${[
+        JSON.stringify({ type: "thread", ...header }),
+        ...interactions.map((interaction) =>
+          JSON.stringify({ type: "interaction", ...interaction })
+        ),
+      ].join("\n")}\n`;
+    }
+    case "markdown":
+      return formatMarkdown(transcript);
+    default:
+      return `${JSON.stringify(transcript, null, 2)}\n`;
+  }
+}
+
+function parseJson(text: string, line?: number): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new InvalidTranscriptError(
+      `Transcript${line ? ` line ${line}` : ""} is not valid JSON: ${
+        (error as Error).message
+      }`
+    );
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasContent(value: unknown): boolean {
+  return isRecord(value) && typeof value.content === "string";
+}
+
+/**
+ * Checks that a value has the shape of a transcript, so that importing it fails before
+ * anything is created.
+ * @param {unknown} value - The parsed transcript.
+ * @returns {ChatTranscript} The transcript.
+ * @throws {InvalidTranscriptError} If the value is not a transcript.
+ */
+export function validateTranscript(value: unknown): ChatTranscript {
+  if (
+    !isRecord(value) ||
+    !isRecord(value.thread) ||
+    !Array.isArray(value.interactions)
+  ) {
+    throw new InvalidTranscriptError(
+      "Transcript must have a thread and an interactions array"
+    );
+  }
+  if (typeof value.version === "number" && value.version > TRANSCRIPT_VERSION) {
+    throw new InvalidTranscriptError(
+      `Transcript version ${value.version} is newer than the supported version ${TRANSCRIPT_VERSION}`
+    );
+  }
+  value.interactions.forEach((interaction: unknown, index: number) => {
+    if (
+      !isRecord(interaction) ||
+      !hasContent(interaction.user_input) ||
+      !hasContent(interaction.model_response)
+    ) {
+      throw new InvalidTranscriptError(
+        `Transcript interaction ${index} must have user_input and model_response content`
+      );
+    }
+  });
+  return value as unknown as ChatTranscript;
+}
+
+/**
+ * Parses a transcript serialized as JSON or JSONL.
+ * @param {string} text - The serialized transcript.
+ * @returns {ChatTranscript} The transcript.
+ * @throws {InvalidTranscriptError} If the text is not a JSON or JSONL transcript.
+ */
+export function parseTranscript(text: string): ChatTranscript {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Not a single JSON document, so it should be JSONL.
+  }
+  if (json !== undefined && !(isRecord(json) && json.type === "thread")) {
+    return validateTranscript(json);
+  }
+
+  const records = text
+    .split(/\r?\n/)
+    .map((line, index) => (line.trim() ? parseJson(line, index + 1) : null))
+    .filter((record) => record !== null);
+  const [header, ...rest] = records;
+  if (!isRecord(header) || header.type !== "thread") {
+    throw new InvalidTranscriptError(
+      "JSONL transcript must start with a thread record"
+    );
+  }
+  const { type, ...thread } = header;
+  return validateTranscript({
+    ...thread,
+    interactions: rest.map((record) => {
+      if (!isRecord(record)) {
+        return record;
+      }
+      const { type, ...interaction } = record;
+      return interaction;
+    }),
+  });
+}
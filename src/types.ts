@@ -38,6 +38,18 @@ export interface Document {
   created_on: number;
 }
 
+export interface DocumentFilters {
+  title_begins_with?: string;
+  supp_id?: string;
+  status?: string;
+  link_to_source?: string;
+}
+
+export type DocumentReference =
+  | string
+  | { supp_id: string }
+  | { file_name: string };
+
 export interface ChatThread {
   title: string;
   supp_id?: string;
@@ -117,14 +129,81 @@ export interface ChatResponse {
   ranked_results: RankedResult[];
 }
 
-export interface AsyncJobResponse {
+export type ChatStreamEvent =
+  | { type: "text_delta"; delta: string }
+  | { type: "search_queries"; search_queries: SearchQuery[] }
+  | { type: "ranked_results"; ranked_results: RankedResult[] }
+  | { type: "interaction"; interaction: ChatInteraction };
+
+export interface QueryKnowledgeBasesBody {
+  query: string;
+  async?: boolean;
+  knowledge_base_ids: string[];
+  top_k?: number;
+  exclude_irrelevant_results?: boolean;
+  summarize_results?: boolean;
+  summary_config?: {
+    system_message: string;
+  };
+  use_auto_query?: boolean;
+  use_rse?: boolean;
+  segment_length?: SegmentLength;
+  summary_system_message?: string | null;
+  auto_query_guidance?: string;
+  json_response?: boolean;
+  use_web_search?: boolean;
+  web_search_config?: WebSearchConfig;
+}
+
+export interface QueryResponse {
+  ranked_results: RankedResult[];
+  search_queries?: SearchQuery[];
+  web_search_results?: WebSearchResult[];
+  web_search_queries?: SearchQuery[];
+}
+
+export interface QuerySummary<TContent = string> {
+  content: TContent;
+  references: number[];
+  web_search_references?: number[];
+}
+
+export interface SummarizedQueryResponse<TContent = string>
+  extends QueryResponse {
+  summary: QuerySummary<TContent>;
+}
+
+/** Resolves whether boolean flag `K` of a request body is known to be set, unset, or unknown. */
+type FlagState<B, K extends string> = B extends { [P in K]: true }
+  ? "on"
+  : K extends keyof B
+  ? B extends { [P in K]: false | undefined }
+    ? "off"
+    : "unknown"
+  : "off";
+
+type SummaryContent<B> = {
+  on: Record<string, unknown>;
+  off: string;
+  unknown: string | Record<string, unknown>;
+}[FlagState<B, "json_response">];
+
+export type QueryKnowledgeBasesResponse<
+  B extends QueryKnowledgeBasesBody = QueryKnowledgeBasesBody
+> = {
+  on: SummarizedQueryResponse<SummaryContent<B>>;
+  off: QueryResponse;
+  unknown: QueryResponse | SummarizedQueryResponse<SummaryContent<B>>;
+}[FlagState<B, "summarize_results">];
+
+export interface AsyncJobResponse<T = ChatResponse> {
   id: string;
   created_on: number;
   status: string;
   status_url: string;
   type: string;
   expires: number;
-  response: ChatResponse;
+  response: T;
 }
 
 export interface ChatThreadBody {
@@ -0,0 +1,155 @@
+import { RequestAbortedError } from "./errors";
+
+/**
+ * Resolves after the given number of milliseconds, or rejects early if the signal is aborted.
+ * @param {number} ms - The number of milliseconds to wait.
+ * @param {AbortSignal} [signal] - Optional signal that cancels the wait.
+ * @returns {Promise<void>} A promise that resolves once the delay has elapsed.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Throws a `RequestAbortedError` if the signal has been aborted.
+ * @param {AbortSignal} [signal] - The signal to check.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestAbortedError();
+  }
+}
+
+/**
+ * Converts an API timestamp to milliseconds. The API reports epoch seconds,
+ * but values that already look like milliseconds are passed through.
+ * @param {number} timestamp - The timestamp to convert.
+ * @returns {number} The timestamp in milliseconds.
+ */
+export function toMillis(timestamp: number): number {
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+/**
+ * Encodes bytes as base64 with `btoa`, which every supported runtime provides.
+ * @param {Uint8Array} bytes - The bytes to encode.
+ * @returns {string} The base64 string.
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Convert in chunks, as spreading a large array into fromCharCode overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(
+      null,
+      Array.from(bytes.subarray(i, i + 0x8000))
+    );
+  }
+  return btoa(binary);
+}
+
+/**
+ * Reads binary data into a `Uint8Array` without copying when possible.
+ * @param {Blob | ArrayBuffer | ArrayBufferView} data - The data. Node `Buffer`s are `Uint8Array`s.
+ * @returns {Promise<Uint8Array>} The bytes.
+ */
+export async function toBytes(
+  data: Blob | ArrayBuffer | ArrayBufferView
+): Promise<Uint8Array> {
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * Encodes an API key and secret as a Basic auth token.
+ * @param {string} apiKey - The API key (username).
+ * @param {string} apiSecret - The API secret (password).
+ * @returns {string} The base64-encoded token, without the `Basic ` prefix.
+ */
+export function encodeBasicAuth(apiKey: string, apiSecret: string): string {
+  return toBase64(new TextEncoder().encode(`${apiKey}:${apiSecret}`));
+}
+
+/**
+ * Maps over items with at most `concurrency` operations in flight, preserving result order.
+ * @param {T[]} items - The items to map.
+ * @param {number} concurrency - The maximum number of concurrent operations.
+ * @param {(item: T, index: number) => Promise<R>} fn - The async mapping function.
+ * @returns {Promise<R[]>} A promise that resolves to the results, in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker
+    )
+  );
+  return results;
+}
+
+/**
+ * Whether a URL may be rendered as a link. Other schemes, such as `javascript:`, are shown
+ * as text so that a source URL can't run script in the rendered page.
+ * @param {string} url - The URL.
+ * @returns {boolean} True for `http:` and `https:` URLs.
+ */
+export function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/**
+ * Escapes the characters that would start a Markdown link or autolink in plain text.
+ * @param {string} text - The text to escape.
+ * @returns {string} The escaped text.
+ */
+export function escapeMarkdownText(text: string): string {
+  return text.replace(/([\\[\]()<>])/g, "\\$1");
+}
+
+/**
+ * Percent-encodes the characters that would end a Markdown link target early.
+ * @param {string} url - The link target.
+ * @returns {string} The encoded URL.
+ */
+export function escapeMarkdownUrl(url: string): string {
+  return url.replace(/[()<>\s]/g, (char) =>
+    char === "(" ? "%28" : char === ")" ? "%29" : encodeURIComponent(char)
+  );
+}
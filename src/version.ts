@@ -0,0 +1 @@
+export const SDK_VERSION = "0.0.2";
@@ -0,0 +1,52 @@
+import { SuperpoweredClientOptions } from "../src/client";
+import { SuperpoweredApiClient } from "../src/node/client";
+import { MockServerOptions, MockSuperpoweredServer } from "../src/testing";
+import { ChatThreadDefaultOptions } from "../src/types";
+
+/**
+ * The subset of a test framework's API used by the suite. Jest, Vitest, Mocha and
+ * `node:test` all provide compatible `describe` and `it` functions.
+ */
+export interface TestApi {
+  describe: (name: string, fn: () => void) => void;
+  it: (name: string, fn: () => Promise<void> | void) => void;
+}
+
+export const DEFAULT_OPTIONS: ChatThreadDefaultOptions = {
+  knowledge_base_ids: [],
+  model: "gpt-4o",
+  temperature: 0.1,
+  use_rse: true,
+  segment_length: "medium",
+  response_length: "medium",
+  system_message: "",
+  auto_query_guidance: "",
+  json_response: false,
+  use_web_search: false,
+};
+
+/**
+ * Creates a mock server and a Node client that sends requests to it, with short retry delays.
+ */
+export function setup(
+  options?: MockServerOptions,
+  clientOptions?: SuperpoweredClientOptions
+) {
+  const server = new MockSuperpoweredServer(options);
+  const client = new SuperpoweredApiClient({
+    apiKey: "key",
+    apiSecret: "secret",
+    adapter: server.adapter,
+    retry: { baseDelay: 1, maxDelay: 5, jitter: false },
+    ...clientOptions,
+  });
+  return { server, client };
+}
+
+export async function createKnowledgeBase(client: SuperpoweredApiClient) {
+  return client.knowledgeBase.createKnowledgeBase({
+    title: "Docs",
+    language_code: "en",
+    type: "unstructured",
+  });
+}
@@ -0,0 +1,4 @@
+import { describe, it } from "vitest";
+import { defineSdkTests } from "./suite";
+
+defineSdkTests({ describe, it });
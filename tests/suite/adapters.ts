@@ -0,0 +1,58 @@
+import assert from "assert";
+import { SuperpoweredApiClient } from "../../src/client";
+import { SuperpoweredLangChainRetriever } from "../../src/langchain";
+import { SuperpoweredLlamaIndexRetriever } from "../../src/llamaindex";
+import { SuperpoweredRetriever } from "../../src/retriever";
+import { MockSuperpoweredServer } from "../../src/testing";
+import { TestApi } from "../helpers";
+
+async function setup() {
+  const server = new MockSuperpoweredServer();
+  const client = new SuperpoweredApiClient({
+    apiKey: "key",
+    apiSecret: "secret",
+    adapter: server.adapter,
+  });
+  const kb = await client.knowledgeBase.createKnowledgeBase({
+    title: "Docs",
+    language_code: "en",
+    type: "unstructured",
+  });
+  const document = await client.document.createDocumentWithRawText(kb.id, {
+    title: "Refund policy",
+    content: "Refunds are issued within 30 days",
+  });
+  const retriever = new SuperpoweredRetriever(client.knowledgeBase, {
+    knowledgeBaseIds: [kb.id],
+  });
+  return { retriever, document };
+}
+
+export function defineRetrieverAdapterTests({ describe, it }: TestApi): void {
+  describe("retriever adapters", () => {
+    it("returns LangChain documents", async () => {
+      const { retriever, document } = await setup();
+      const documents = await new SuperpoweredLangChainRetriever({
+        retriever,
+      }).invoke("refunds");
+
+      assert.strictEqual(documents.length, 1);
+      assert.strictEqual(
+        documents[0].pageContent,
+        "Refunds are issued within 30 days"
+      );
+      assert.strictEqual(documents[0].metadata.document_id, document.id);
+    });
+
+    it("returns LlamaIndex nodes with scores", async () => {
+      const { retriever, document } = await setup();
+      const nodes = await new SuperpoweredLlamaIndexRetriever(
+        retriever
+      ).retrieve({ query: "refunds" });
+
+      assert.strictEqual(nodes.length, 1);
+      assert.strictEqual(nodes[0].score, 1);
+      assert.strictEqual(nodes[0].node.metadata.document_id, document.id);
+    });
+  });
+}
@@ -0,0 +1,82 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineBackupTests({ describe, it }: TestApi): void {
+  describe("backups", () => {
+    it("restores into another account and resumes after failures", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      for (const title of ["One", "Two", "Three"]) {
+        await client.document.createDocumentWithRawText(kb.id, {
+          title,
+          content: `${title} content`,
+          supp_id: title.toLowerCase(),
+          chunk_header: `Docs: ${title}`,
+        });
+      }
+      const directory = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "superpowered-backup-")
+      );
+
+      try {
+        const manifest = await client.backup.backup(kb.id, directory);
+        assert.strictEqual(manifest.documents.length, 3);
+
+        const other = setup({}, { retry: false });
+        other.server.failNext({ path: /raw_text$/, status: 500 });
+        const first = await client.backup.restore(directory, {
+          target: other.client,
+          concurrency: 1,
+        });
+        assert.deepStrictEqual(first.summary, {
+          restored: 2,
+          skipped: 0,
+          failed: 1,
+        });
+
+        const second = await client.backup.restore(directory, {
+          target: other.client,
+        });
+        assert.strictEqual(second.knowledgeBaseId, first.knowledgeBaseId);
+        assert.deepStrictEqual(second.summary, {
+          restored: 1,
+          skipped: 2,
+          failed: 0,
+        });
+
+        const third = setup();
+        const copy = await client.backup.clone(kb.id, directory, {
+          target: third.client,
+        });
+        assert.deepStrictEqual(copy.summary, {
+          restored: 3,
+          skipped: 0,
+          failed: 0,
+        });
+        assert.strictEqual(third.server.documents.size, 3);
+
+        const restored = Array.from(other.server.documents.values());
+        assert.deepStrictEqual(
+          restored
+            .map(({ title, supp_id, chunk_header, content }) => [
+              title,
+              supp_id,
+              chunk_header,
+              content,
+            ])
+            .sort(),
+          [
+            ["One", "one", "Docs: One", "One content"],
+            ["Three", "three", "Docs: Three", "Three content"],
+            ["Two", "two", "Docs: Two", "Two content"],
+          ]
+        );
+      } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+}
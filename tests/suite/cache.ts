@@ -0,0 +1,67 @@
+import assert from "assert";
+import { MemoryQueryCacheStore, QueryCache } from "../../src/cache";
+import { MockSuperpoweredServer } from "../../src/testing";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineCacheTests({ describe, it }: TestApi): void {
+  describe("query cache", () => {
+    const countQueries = (server: MockSuperpoweredServer) =>
+      server.requests.filter(({ path }) => path === "/knowledge_bases/query")
+        .length;
+
+    it("reuses responses to equivalent queries until a document write", async () => {
+      const { server, client } = setup({}, { cache: { ttl: 60000 } });
+      const kb = await createKnowledgeBase(client);
+      const other = await createKnowledgeBase(client);
+
+      const first = await client.knowledgeBase.queryKnowledgeBases({
+        query: "what is  the refund policy?",
+        knowledge_base_ids: [kb.id, other.id],
+        top_k: 3,
+      });
+      const second = await client.knowledgeBase.queryKnowledgeBases({
+        top_k: 3,
+        knowledge_base_ids: [other.id, kb.id],
+        query: " what is the refund policy? ",
+      });
+      assert.deepStrictEqual(second, first);
+      assert.strictEqual(countQueries(server), 1);
+
+      await client.knowledgeBase.queryKnowledgeBases({
+        query: "what is the refund policy?",
+        knowledge_base_ids: [kb.id, other.id],
+        top_k: 5,
+      });
+      assert.strictEqual(countQueries(server), 2);
+
+      await client.document.createDocumentWithRawText(other.id, {
+        title: "Refunds",
+        content: "Refunds are issued within 30 days.",
+      });
+      await client.knowledgeBase.queryKnowledgeBases({
+        query: "what is the refund policy?",
+        knowledge_base_ids: [kb.id, other.id],
+        top_k: 3,
+      });
+      assert.strictEqual(countQueries(server), 3);
+    });
+
+    it("expires entries and evicts the least recently used", async () => {
+      const store = new MemoryQueryCacheStore({ maxEntries: 2 });
+      const cache = new QueryCache({ store, ttl: 20 });
+      const body = (query: string) => ({ query, knowledge_base_ids: ["kb"] });
+      const value = { ranked_results: [] };
+
+      await cache.set(body("a"), value);
+      await cache.set(body("b"), value);
+      await cache.get(body("a"));
+      await cache.set(body("c"), value);
+      assert.strictEqual(store.size, 2);
+      assert.ok(await cache.get(body("a")));
+      assert.strictEqual(await cache.get(body("b")), undefined);
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      assert.strictEqual(await cache.get(body("a")), undefined);
+    });
+  });
+}
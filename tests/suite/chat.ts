@@ -0,0 +1,168 @@
+import assert from "assert";
+import { ValidationError } from "../../src/errors";
+import { isAsyncJobResponse } from "../../src/jobs";
+import { parseServerSentEvents } from "../../src/streaming";
+import { ChatStreamEvent } from "../../src/types";
+import { DEFAULT_OPTIONS, TestApi, setup } from "../helpers";
+
+export function defineChatTests({ describe, it }: TestApi): void {
+  describe("chat", () => {
+    it("streams responses as typed events", async () => {
+      const { client } = setup();
+      const thread = await client.chat.createChatThread({
+        title: "Support",
+        default_options: DEFAULT_OPTIONS,
+      });
+
+      const events: ChatStreamEvent[] = [];
+      for await (const event of client.chat.streamChatThreadResponse(
+        thread.id,
+        {
+          input: "hello",
+        }
+      )) {
+        events.push(event);
+      }
+
+      const text = events
+        .map((event) => (event.type === "text_delta" ? event.delta : ""))
+        .join("");
+      assert.strictEqual(text, "Mock response to: hello");
+      assert.strictEqual(events[events.length - 1].type, "interaction");
+    });
+
+    it("resolves async responses and lists interactions", async () => {
+      const { client } = setup();
+      const thread = await client.chat.createChatThread({
+        title: "Support",
+        default_options: DEFAULT_OPTIONS,
+      });
+
+      const result = await client.chat.getChatThreadResponse(thread.id, {
+        input: "first",
+        async: true,
+      });
+      assert.ok(isAsyncJobResponse(result));
+      const response = await client.job.waitForChatResponse(result, {
+        pollInterval: 1,
+      });
+      assert.strictEqual(response.interaction.user_input.content, "first");
+
+      await client.chat.getChatThreadResponse(thread.id, { input: "second" });
+      const interactions = await client.chat
+        .iterateChatThreadInteractions(thread.id, {}, { pageSize: 1 })
+        .collectAll();
+      assert.deepStrictEqual(
+        interactions.map(({ user_input }) => user_input.content),
+        ["first", "second"]
+      );
+    });
+
+    it("keeps CRLF line endings split across chunks together", async () => {
+      async function* chunks() {
+        yield "event: text_delta\r";
+        yield "\ndata: 1\r\n\r";
+        yield "\nevent: done\rdata: 2\r";
+      }
+      const events = [];
+      for await (const event of parseServerSentEvents(chunks())) {
+        events.push(event);
+      }
+      assert.deepStrictEqual(events, [
+        { event: "text_delta", data: "1" },
+        { event: "done", data: "2" },
+      ]);
+    });
+
+    it("throws validation errors instead of falling back", async () => {
+      for (const status of [400, 422]) {
+        const { server, client } = setup();
+        const thread = await client.chat.createChatThread({
+          title: "Support",
+          default_options: DEFAULT_OPTIONS,
+        });
+        server.failNext({ path: /get_response$/, status });
+
+        await assert.rejects(async () => {
+          for await (const event of client.chat.streamChatThreadResponse(
+            thread.id,
+            { input: "hello" }
+          )) {
+            void event;
+          }
+        }, ValidationError);
+        assert.strictEqual(
+          server.requests.filter(({ path }) => path.endsWith("/get_response"))
+            .length,
+          1
+        );
+      }
+    });
+
+    it("falls back to an async job when the API rejects streaming", async () => {
+      for (const status of [406, 415, 501]) {
+        const { server, client } = setup();
+        const thread = await client.chat.createChatThread({
+          title: "Support",
+          default_options: DEFAULT_OPTIONS,
+        });
+        server.failNext({ path: /get_response$/, status });
+
+        const events: ChatStreamEvent[] = [];
+        for await (const event of client.chat.streamChatThreadResponse(
+          thread.id,
+          { input: "hello" },
+          { jobOptions: { pollInterval: 1 } }
+        )) {
+          events.push(event);
+        }
+        const sent = server.requests.filter(({ path }) =>
+          path.endsWith("/get_response")
+        );
+        assert.deepStrictEqual(
+          sent.map(({ body }) => (body as { async?: boolean }).async),
+          [undefined, true]
+        );
+        assert.ok(
+          server.requests.some(({ path }) => path.startsWith("/jobs/"))
+        );
+        const last = events[events.length - 1];
+        assert.ok(last.type === "interaction");
+        assert.strictEqual(
+          last.interaction.model_response.content,
+          "Mock response to: hello"
+        );
+      }
+    });
+
+    it("falls back to JSON when the response is not an event stream", async () => {
+      const { server, client } = setup({ streaming: false });
+      const thread = await client.chat.createChatThread({
+        title: "Support",
+        default_options: DEFAULT_OPTIONS,
+      });
+
+      const events: ChatStreamEvent[] = [];
+      for await (const event of client.chat.streamChatThreadResponse(
+        thread.id,
+        {
+          input: "hello",
+        }
+      )) {
+        events.push(event);
+      }
+      assert.strictEqual(
+        events
+          .map((event) => (event.type === "text_delta" ? event.delta : ""))
+          .join(""),
+        "Mock response to: hello"
+      );
+      assert.strictEqual(events[events.length - 1].type, "interaction");
+      assert.strictEqual(
+        server.requests.filter(({ path }) => path.endsWith("/get_response"))
+          .length,
+        1
+      );
+    });
+  });
+}
@@ -0,0 +1,85 @@
+import assert from "assert";
+import { formatCitations } from "../../src/citations";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineCitationTests({ describe, it }: TestApi): void {
+  describe("citations", () => {
+    it("renders footnotes with one source per document", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      await client.document.createDocumentWithRawText(kb.id, {
+        title: "Billing <guide>",
+        content: "Invoices are sent monthly",
+        link_to_source: "https://example.com/billing",
+      });
+      const reply = await client.chat
+        .conversation()
+        .send("invoices", { knowledge_base_ids: [kb.id] });
+      const result = reply.interaction.ranked_results![0];
+      const interaction = {
+        ...reply.interaction,
+        model_response: { content: "Monthly [0], by email [1].", timestamp: 0 },
+        ranked_results: [result, { ...result, content: "Sent by email" }],
+        references: [0, 1],
+        web_search_results: [
+          { title: "Blog", url: "https://blog.example.com", content: "Post" },
+        ],
+        web_search_references: [0],
+      };
+
+      assert.strictEqual(
+        formatCitations(interaction, "markdown"),
+        "Monthly [^1], by email [^1].[^2]\n\n" +
+          '[^1]: [Billing \\<guide\\>](https://example.com/billing) — "Invoices are sent monthly"\n' +
+          '[^2]: [Blog](https://blog.example.com) — "Post"'
+      );
+      assert.ok(
+        formatCitations(interaction, "html").indexOf(
+          '<a href="https://example.com/billing">Billing &lt;guide&gt;</a>'
+        ) !== -1
+      );
+      assert.ok(
+        formatCitations(interaction, "text", { excerptLength: 0 }).endsWith(
+          "Sources:\n[1] Billing <guide> (https://example.com/billing)\n" +
+            "[2] Blog (https://blog.example.com)"
+        )
+      );
+    });
+
+    it("links only http and https URLs", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      await client.document.createDocumentWithRawText(kb.id, {
+        title: "Notes",
+        content: "Invoices are sent monthly",
+        link_to_source: "javascript:alert(1)",
+      });
+      const reply = await client.chat
+        .conversation()
+        .send("invoices", { knowledge_base_ids: [kb.id] });
+      const interaction = {
+        ...reply.interaction,
+        model_response: { content: "Monthly [0].", timestamp: 0 },
+        references: [0],
+        web_search_results: [
+          {
+            title: "[Blog](javascript:x)",
+            url: "https://blog.example.com/a (b)",
+            content: "Post",
+          },
+        ],
+        web_search_references: [0],
+      };
+
+      const html = formatCitations(interaction, "html", { excerptLength: 0 });
+      assert.strictEqual(html.indexOf('href="javascript:'), -1);
+      assert.ok(html.indexOf("Notes (javascript:alert(1))") !== -1);
+      assert.strictEqual(
+        formatCitations(interaction, "markdown", { excerptLength: 0 }),
+        "Monthly [^1].[^2]\n\n" +
+          "[^1]: Notes (javascript:alert\\(1\\))\n" +
+          "[^2]: [\\[Blog\\]\\(javascript:x\\)](https://blog.example.com/a%20%28b%29)"
+      );
+    });
+  });
+}
@@ -0,0 +1,141 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { resolveClientOptions } from "../../src/cli/config";
+import { main } from "../../src/cli";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+const ENV_KEYS = [
+  "SUPERPOWERED_API_KEY",
+  "SUPERPOWERED_API_SECRET",
+  "SUPERPOWERED_TOKEN",
+  "SUPERPOWERED_BASE_URL",
+  "SUPERPOWERED_PROFILE",
+  "SUPERPOWERED_CONFIG",
+];
+
+export function defineCliTests({ describe, it }: TestApi): void {
+  describe("cli", () => {
+    // Runs a test with the CLI's environment variables cleared and a temporary config file.
+    function test(name: string, fn: () => void | Promise<void>) {
+      it(name, async () => {
+        const savedEnv: Record<string, string | undefined> = {};
+        for (const key of ENV_KEYS) {
+          savedEnv[key] = process.env[key];
+          delete process.env[key];
+        }
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "superpowered-cli-"));
+        process.env.SUPERPOWERED_CONFIG = path.join(dir, "config.json");
+        try {
+          await fn();
+        } finally {
+          for (const key of ENV_KEYS) {
+            if (savedEnv[key] === undefined) {
+              delete process.env[key];
+            } else {
+              process.env[key] = savedEnv[key];
+            }
+          }
+          fs.rmSync(dir, { recursive: true, force: true });
+        }
+      });
+    }
+
+    function writeConfig(profiles: Record<string, unknown>) {
+      fs.writeFileSync(
+        process.env.SUPERPOWERED_CONFIG!,
+        JSON.stringify({ profiles })
+      );
+    }
+
+    async function run(argv: string[]): Promise<string> {
+      const lines: string[] = [];
+      const { log } = console;
+      console.log = (line = "") => {
+        lines.push(String(line));
+      };
+      try {
+        await main(argv);
+      } finally {
+        console.log = log;
+      }
+      return lines.join("\n");
+    }
+
+    test("prefers credentials from the environment over the profile", () => {
+      writeConfig({
+        default: { token: "profile-token", baseURL: "https://profile.test" },
+        staging: { apiKey: "staging-key", apiSecret: "staging-secret" },
+      });
+      process.env.SUPERPOWERED_API_KEY = "env-key";
+      process.env.SUPERPOWERED_API_SECRET = "env-secret";
+
+      const options = resolveClientOptions();
+      assert.strictEqual(options.apiKey, "env-key");
+      assert.strictEqual(options.apiSecret, "env-secret");
+      assert.strictEqual(options.token, undefined);
+      assert.strictEqual(options.baseURL, "https://profile.test");
+
+      // An incomplete set in the environment falls back to the profile.
+      delete process.env.SUPERPOWERED_API_SECRET;
+      const staging = resolveClientOptions("staging");
+      assert.strictEqual(staging.apiKey, "staging-key");
+      assert.strictEqual(staging.apiSecret, "staging-secret");
+
+      assert.throws(() => resolveClientOptions("missing"), /Profile "missing"/);
+      writeConfig({});
+      assert.throws(() => resolveClientOptions(), /No credentials found/);
+    });
+
+    test("parses arguments and runs document commands against the API", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const { baseURL, close } = await server.listen();
+      process.env.SUPERPOWERED_API_KEY = "key";
+      process.env.SUPERPOWERED_API_SECRET = "secret";
+      process.env.SUPERPOWERED_BASE_URL = baseURL;
+
+      try {
+        const content =
+          `Refunds are issued within 30 days. ${"More detail. ".repeat(
+            10
+          )}`.trim();
+        const created = JSON.parse(
+          await run([
+            "doc",
+            "raw-text",
+            kb.id,
+            "--title",
+            "Refund policy",
+            "--text",
+            content,
+            "-o",
+            "json",
+          ])
+        );
+        assert.strictEqual(created.title, "Refund policy");
+        const sent = server.requests.filter(({ path }) =>
+          path.endsWith("/raw_text")
+        );
+        assert.strictEqual(
+          (sent[0].body as { content: string }).content,
+          content
+        );
+
+        const table = await run(["doc", "get", kb.id, created.id, "--content"]);
+        assert.ok(table.indexOf("Refund policy") !== -1);
+        assert.ok(table.endsWith(`\n${content}`));
+
+        const listed = await run(["doc", "list", kb.id, "-o", "ndjson"]);
+        assert.strictEqual(JSON.parse(listed).id, created.id);
+
+        await assert.rejects(main(["doc", "raw-text", kb.id]), /--title/);
+        await assert.rejects(main(["nope"]), /Unknown command "nope"/);
+        await assert.rejects(main(["kb", "list", "-o", "xml"]), /xml/);
+      } finally {
+        await close();
+      }
+    });
+  });
+}
@@ -0,0 +1,46 @@
+import assert from "assert";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineConversationTests({ describe, it }: TestApi): void {
+  describe("conversations", () => {
+    it("creates the thread lazily and resolves cited results", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+      await client.document.createDocumentWithRawText(kb.id, {
+        title: "Billing",
+        content: "Invoices are sent monthly",
+      });
+
+      const conversation = client.chat.conversation({ title: "Support" });
+      assert.strictEqual(conversation.id, undefined);
+      assert.strictEqual(server.threads.size, 0);
+
+      const reply = await conversation.send("invoices", {
+        knowledge_base_ids: [kb.id],
+        async: true,
+      });
+      assert.strictEqual(server.threads.size, 1);
+      assert.strictEqual(reply.content, "Mock response to: invoices");
+      assert.deepStrictEqual(
+        reply.citations.map(({ metadata }) => metadata.document.title),
+        ["Billing"]
+      );
+
+      await conversation.send("thanks");
+      assert.strictEqual(conversation.history.length, 2);
+    });
+
+    it("syncs history when continuing an existing thread", async () => {
+      const { client } = setup();
+      const first = client.chat.conversation();
+      await first.send("hello");
+
+      const resumed = client.chat.conversation({ threadId: first.id });
+      await resumed.send("again");
+      assert.deepStrictEqual(
+        resumed.history.map(({ user_input }) => user_input.content),
+        ["hello", "again"]
+      );
+    });
+  });
+}
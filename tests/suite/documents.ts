@@ -0,0 +1,290 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { DocumentVectorizationError, NotFoundError } from "../../src/errors";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineDocumentTests({ describe, it }: TestApi): void {
+  describe("documents", () => {
+    it("follows page tokens when iterating", async () => {
+      const { client } = setup({ pageSize: 2 });
+      const kb = await createKnowledgeBase(client);
+      for (let i = 0; i < 5; i++) {
+        await client.document.createDocumentWithRawText(kb.id, {
+          title: `Doc ${i}`,
+          content: `Content ${i}`,
+        });
+      }
+
+      const all = await client.document.iterateDocuments(kb.id).collectAll();
+      assert.strictEqual(all.length, 5);
+
+      const capped = await client.document
+        .iterateDocuments(kb.id, {}, { maxItems: 3 })
+        .collectAll();
+      assert.deepStrictEqual(
+        capped.map(({ title }) => title),
+        ["Doc 0", "Doc 1", "Doc 2"]
+      );
+    });
+
+    it("uploads files and reports duplicates", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const file = Buffer.from("hello world");
+
+      const unresolved = await client.document.uploadDocument(
+        kb.id,
+        Buffer.from("other"),
+        "sub/b.txt"
+      );
+      assert.deepStrictEqual(unresolved, { success: true });
+      assert.ok(!server.requests.some(({ method }) => method === "GET"));
+
+      const first = await client.document.uploadDocument(kb.id, file, "a.txt", {
+        resolveDocumentId: true,
+      });
+      assert.strictEqual(first.success, true);
+      assert.strictEqual(
+        server.documents.get(first.documentId!)?.file_name,
+        "a.txt"
+      );
+
+      const second = await client.document.uploadStream(
+        kb.id,
+        Readable.from([file]),
+        "a.txt"
+      );
+      assert.strictEqual(second.success, false);
+      assert.strictEqual(second.existingDocumentId, first.documentId);
+    });
+
+    it("uploads Blob, ArrayBuffer and Uint8Array content", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const bytes = new TextEncoder().encode("__portable bytes__");
+
+      const results = await Promise.all([
+        client.document.uploadDocument(kb.id, bytes.subarray(2, 16), "a.txt"),
+        client.document.uploadDocument(kb.id, bytes.slice().buffer, "b.txt"),
+        client.document.uploadDocument(kb.id, new Blob([bytes]), "c.txt"),
+      ]);
+      assert.deepStrictEqual(
+        results.map(({ success }) => success),
+        [true, true, true]
+      );
+    });
+
+    it("requests a fresh signed URL when the previous one expired", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+      server.failNext({
+        method: "PUT",
+        path: /^\/uploads\//,
+        status: 403,
+        body: "Request has expired",
+      });
+
+      const result = await client.document.uploadDocument(
+        kb.id,
+        Buffer.from("retry me"),
+        "b.txt"
+      );
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(
+        server.requests.filter(({ path }) =>
+          path.endsWith("request_signed_file_url")
+        ).length,
+        2
+      );
+    });
+
+    it("creates, updates and deletes documents in bulk", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const progress: number[] = [];
+
+      const created = await client.document.bulkCreateDocuments(
+        kb.id,
+        [
+          { title: "Draft 1", content: "One" },
+          { title: "Draft 2", content: "Two" },
+          { title: "Guide", url: "https://example.com/guide" },
+        ],
+        {
+          concurrency: 2,
+          onProgress: ({ completed }) => progress.push(completed),
+        }
+      );
+      assert.strictEqual(created.succeeded, 3);
+      assert.deepStrictEqual(progress, [1, 2, 3]);
+
+      const updated = await client.document.bulkUpdateDocuments(kb.id, [
+        { documentId: "missing", supp_id: "x" },
+        { documentId: created.results[2].result!.id, supp_id: "guide" },
+      ]);
+      assert.deepStrictEqual(
+        updated.results.map(({ success }) => success),
+        [false, true]
+      );
+      assert.ok(updated.results[0].error instanceof NotFoundError);
+
+      const failFast = await client.document.bulkUpdateDocuments(
+        kb.id,
+        [{ documentId: "missing" }, { documentId: "also-missing" }],
+        { concurrency: 1, failFast: true }
+      );
+      assert.deepStrictEqual([failFast.failed, failFast.skipped], [1, 1]);
+
+      const deleted = await client.document.bulkDeleteDocuments(kb.id, {
+        title_begins_with: "Draft",
+      });
+      assert.strictEqual(deleted.succeeded, 2);
+      const remaining = await client.document
+        .iterateDocuments(kb.id)
+        .collectAll();
+      assert.deepStrictEqual(
+        remaining.map(({ title }) => title),
+        ["Guide"]
+      );
+    });
+
+    it("waits for vectorization to complete", async () => {
+      const { server, client } = setup({ vectorizationPolls: 2 });
+      const kb = await createKnowledgeBase(client);
+      const doc = await client.document.createDocumentWithRawText(kb.id, {
+        title: "Guide",
+        content: "Setup guide",
+      });
+      assert.strictEqual(doc.vectorization_status, "IN_PROGRESS");
+
+      const ready = await client.document.waitForDocumentReady(kb.id, doc.id, {
+        pollInterval: 1,
+      });
+      assert.strictEqual(ready.vectorization_status, "COMPLETE");
+
+      server.documents.get(doc.id)!.vectorization_status = "FAILED";
+      await assert.rejects(
+        client.document.waitForDocumentReady(kb.id, doc.id),
+        DocumentVectorizationError
+      );
+    });
+
+    async function withDirectory(
+      files: Record<string, string>,
+      fn: (directory: string) => Promise<void>
+    ) {
+      const directory = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "superpowered-upload-test-")
+      );
+      try {
+        for (const file of Object.keys(files)) {
+          await fs.promises.mkdir(path.dirname(path.join(directory, file)), {
+            recursive: true,
+          });
+          await fs.promises.writeFile(path.join(directory, file), files[file]);
+        }
+        await fn(directory);
+      } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+      }
+    }
+
+    it("uploads files from disk under their base name or a given name", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+
+      await withDirectory(
+        { "docs/report.PDF": "%PDF-1.4" },
+        async (directory) => {
+          const filePath = path.join(directory, "docs/report.PDF");
+          const byBaseName = await client.document.uploadFile(kb.id, filePath, {
+            suppId: "report",
+            resolveDocumentId: true,
+          });
+          assert.strictEqual(byBaseName.success, true);
+          const document = server.documents.get(byBaseName.documentId!)!;
+          assert.strictEqual(document.file_name, "report.PDF");
+          assert.strictEqual(document.file_extension, "PDF");
+          assert.strictEqual(document.supp_id, "report");
+          assert.strictEqual(document.content, "%PDF-1.4");
+
+          const put = server.requests.filter(
+            ({ method }) => method === "PUT"
+          )[0];
+          assert.strictEqual(put.headers["content-length"], "8");
+          assert.strictEqual(
+            put.headers["content-type"],
+            "application/octet-stream"
+          );
+
+          const renamed = await client.document.uploadFile(kb.id, filePath, {
+            fileName: "archive/2024.pdf",
+          });
+          assert.strictEqual(renamed.success, true);
+          assert.ok(
+            Array.from(server.documents.values()).some(
+              ({ file_name }) => file_name === "archive/2024.pdf"
+            )
+          );
+        }
+      );
+    });
+
+    it("uploads matching files in a directory under their relative paths", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+
+      await withDirectory(
+        {
+          "intro.md": "Intro",
+          "guide/setup.md": "Setup",
+          "guide/deep/faq.md": "FAQ",
+          "image.png": "PNG",
+        },
+        async (directory) => {
+          await client.document.uploadFile(
+            kb.id,
+            path.join(directory, "intro.md")
+          );
+          server.failNext({ method: "PUT", status: 403, body: "Denied" });
+
+          const uploaded: string[] = [];
+          const results = await client.document.uploadDirectory(
+            kb.id,
+            directory,
+            {
+              glob: "**/*.md",
+              concurrency: 1,
+              onFileUploaded: ({ path }) => uploaded.push(path),
+            }
+          );
+
+          assert.deepStrictEqual(
+            results.map(({ path, success }) => [path, success]),
+            [
+              ["guide/deep/faq.md", false],
+              ["guide/setup.md", true],
+              ["intro.md", false],
+            ]
+          );
+          assert.deepStrictEqual(uploaded, [
+            "guide/deep/faq.md",
+            "guide/setup.md",
+            "intro.md",
+          ]);
+          assert.ok(results[0].errorMessage);
+          assert.ok(results[2].existingDocumentId);
+          assert.deepStrictEqual(
+            Array.from(server.documents.values())
+              .map(({ file_name }) => file_name)
+              .sort(),
+            ["guide/setup.md", "intro.md"]
+          );
+        }
+      );
+    });
+  });
+}
@@ -0,0 +1,90 @@
+import assert from "assert";
+import {
+  evaluateRetrieval,
+  formatEvaluationReport,
+} from "../../src/evaluation";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineEvaluationTests({ describe, it }: TestApi): void {
+  describe("retrieval evaluation", () => {
+    it("compares query configurations with hit rate, MRR and nDCG", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const create = (title: string, content: string, supp_id?: string) =>
+        client.document.createDocumentWithRawText(kb.id, {
+          title,
+          content,
+          supp_id,
+        });
+      await create(
+        "Refund policy",
+        "Refunds are issued within 30 days",
+        "refunds"
+      );
+      const shipping = await create("Shipping", "Orders ship within 2 days");
+      const digital = await create(
+        "Exceptions",
+        "Digital goods refund exceptions"
+      );
+
+      const report = await evaluateRetrieval(
+        client.knowledgeBase,
+        {
+          knowledgeBaseIds: [kb.id],
+          cases: [
+            { query: "refund policy", expectedSuppIds: ["refunds"] },
+            { query: "shipping days", expectedDocumentIds: [shipping.id] },
+            { query: "digital refunds", expectedDocumentIds: [digital.id] },
+          ],
+        },
+        [
+          { name: "top1", params: { top_k: 1 } },
+          { name: "top5", params: { top_k: 5 } },
+        ]
+      );
+
+      const [top1, top5] = report.configs;
+      assert.deepStrictEqual(
+        top1.cases.map(({ firstRelevantRank }) => firstRelevantRank),
+        [1, 1, undefined]
+      );
+      assert.strictEqual(top1.metrics.hitRate, 2 / 3);
+      assert.strictEqual(top5.metrics.hitRate, 1);
+      assert.strictEqual(top5.metrics.mrr, 2.5 / 3);
+      assert.strictEqual(top5.metrics.ndcg, (2 + 1 / Math.log2(3)) / 3);
+      assert.strictEqual(top5.failed, 0);
+
+      const markdown = formatEvaluationReport(report, "markdown");
+      assert.ok(markdown.indexOf("| top5 | top_k=5 | **1.000** |") !== -1);
+      assert.ok(markdown.indexOf("| 3 | digital refunds | - | 2 |") !== -1);
+    });
+
+    it("counts a document expected by ID and supp_id once", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const refunds = await client.document.createDocumentWithRawText(kb.id, {
+        title: "Refund policy",
+        content: "Refunds are issued within 30 days",
+        supp_id: "refunds",
+      });
+
+      const report = await evaluateRetrieval(
+        client.knowledgeBase,
+        {
+          knowledgeBaseIds: [kb.id],
+          cases: [
+            {
+              query: "refund policy",
+              expectedDocumentIds: [refunds.id],
+              expectedSuppIds: ["refunds"],
+            },
+          ],
+        },
+        [{ name: "top5", params: { top_k: 5 } }]
+      );
+
+      assert.strictEqual(report.configs[0].metrics.ndcg, 1);
+      assert.strictEqual(typeof report.generatedOn, "number");
+    });
+  });
+}
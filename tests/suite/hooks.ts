@@ -0,0 +1,93 @@
+import assert from "assert";
+import axios from "axios";
+import { RequestEvent, createDebugLogger } from "../../src/hooks";
+import { SuperpoweredApiClient } from "../../src/node/client";
+import { MockSuperpoweredServer } from "../../src/testing";
+import { TestApi, setup } from "../helpers";
+
+export function defineHookTests({ describe, it }: TestApi): void {
+  describe("hooks", () => {
+    it("reports operations, statuses and retries under one request id", async () => {
+      type Recorded = RequestEvent & { status?: number; error?: unknown };
+      const events: (Recorded & { type: string })[] = [];
+      const record = (type: string) => (event: Recorded) => {
+        events.push({ ...event, type });
+      };
+      const { server, client } = setup(
+        {},
+        {
+          hooks: {
+            onRequest: record("request"),
+            onResponse: record("response"),
+            onRetry: record("retry"),
+            onError: record("error"),
+          },
+        }
+      );
+      server.failNext({ method: "GET", status: 503 });
+      await client.knowledgeBase.listKnowledgeBases();
+
+      assert.deepStrictEqual(
+        events.map(({ type, attempt, status }) => [type, attempt, status]),
+        [
+          ["request", 0, undefined],
+          ["retry", 0, 503],
+          ["request", 1, undefined],
+          ["response", 1, 200],
+        ]
+      );
+      assert.ok(
+        events.every(({ requestId }) => requestId === events[0].requestId)
+      );
+      assert.ok(
+        events.every(
+          ({ operation }) => operation === "knowledgeBase.listKnowledgeBases"
+        )
+      );
+
+      events.length = 0;
+      const error = await client.knowledgeBase
+        .getKnowledgeBase("missing")
+        .catch((e) => e);
+      assert.strictEqual(events[1].type, "error");
+      assert.strictEqual(events[1].error, error);
+    });
+
+    it("logs requests without the Authorization header", async () => {
+      const lines: string[] = [];
+      const { client } = setup(
+        {},
+        { hooks: createDebugLogger((line) => lines.push(line)) }
+      );
+      await client.knowledgeBase.listKnowledgeBases();
+
+      assert.strictEqual(lines.length, 2);
+      assert.ok(lines[0].indexOf("[REDACTED]") !== -1);
+      assert.strictEqual(lines[0].indexOf("Basic "), -1);
+      assert.ok(lines[1].indexOf("<- 200") !== -1);
+    });
+
+    it("does not stack hooks on a shared axios instance", async () => {
+      const server = new MockSuperpoweredServer();
+      const shared = axios.create({ adapter: server.adapter });
+      const counts = [0, 0];
+      const [first] = counts.map(
+        (_, index) =>
+          new SuperpoweredApiClient({
+            apiKey: "key",
+            apiSecret: "secret",
+            axiosInstance: shared,
+            hooks: { onRequest: () => void counts[index]++ },
+          })
+      );
+      await first.knowledgeBase.listKnowledgeBases();
+
+      assert.deepStrictEqual(counts, [1, 0]);
+      assert.strictEqual(server.requests.length, 1);
+      assert.strictEqual(
+        shared.defaults.headers.common.Authorization,
+        undefined
+      );
+    });
+  });
+}
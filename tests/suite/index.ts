@@ -0,0 +1,46 @@
+import { TestApi } from "../helpers";
+import { defineRetrieverAdapterTests } from "./adapters";
+import { defineBackupTests } from "./backup";
+import { defineCacheTests } from "./cache";
+import { defineChatTests } from "./chat";
+import { defineCitationTests } from "./citations";
+import { defineCliTests } from "./cli";
+import { defineConversationTests } from "./conversation";
+import { defineDocumentTests } from "./documents";
+import { defineEvaluationTests } from "./evaluation";
+import { defineHookTests } from "./hooks";
+import { defineIngestionTests } from "./ingestion";
+import { defineKnowledgeBaseTests } from "./knowledgeBases";
+import { defineProxyTests } from "./proxy";
+import { defineRetrieverTests } from "./retriever";
+import { defineRetryTests } from "./retry";
+import { defineSchemaTests } from "./schemas";
+import { defineSyncTests } from "./sync";
+import { defineTranscriptTests } from "./transcripts";
+
+export type { TestApi };
+
+/**
+ * Defines the SDK's test suite with the given test framework, so it runs under Jest,
+ * Vitest, Mocha or `node:test`.
+ */
+export function defineSdkTests(api: TestApi): void {
+  defineKnowledgeBaseTests(api);
+  defineDocumentTests(api);
+  defineChatTests(api);
+  defineRetryTests(api);
+  defineSchemaTests(api);
+  defineHookTests(api);
+  defineCacheTests(api);
+  defineSyncTests(api);
+  defineBackupTests(api);
+  defineConversationTests(api);
+  defineTranscriptTests(api);
+  defineCitationTests(api);
+  defineEvaluationTests(api);
+  defineProxyTests(api);
+  defineRetrieverTests(api);
+  defineRetrieverAdapterTests(api);
+  defineIngestionTests(api);
+  defineCliTests(api);
+}
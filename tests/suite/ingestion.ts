@@ -0,0 +1,202 @@
+import assert from "assert";
+import { formatIngestionPlan, planIngestion } from "../../src/ingestion";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineIngestionTests({ describe, it }: TestApi): void {
+  describe("ingestion", () => {
+    it("derives document metadata from front-matter and headings", () => {
+      const plan = planIngestion(
+        [
+          {
+            path: "docs/refunds.md",
+            content: [
+              "---",
+              'title: "Refund policy"',
+              "slug: refunds",
+              "description: >",
+              "  How and when",
+              "  refunds are issued.",
+              "tags: [billing, policy]",
+              "---",
+              "# Refunds",
+              "",
+              "Refunds are issued within 30 days.",
+            ].join("\n"),
+          },
+          {
+            path: "docs/shipping.md",
+            content: "Orders ship within 2 days.\n\n```\n# not a heading\n```",
+          },
+          { path: "docs/empty.md", content: "---\ntitle: Empty\n---\n" },
+          { path: "docs/logo.png", content: "" },
+        ],
+        { suppIdKey: "slug" }
+      );
+
+      assert.deepStrictEqual(
+        plan.documents.map(({ content, ...document }) => document),
+        [
+          {
+            source: "docs/refunds.md",
+            title: "Refund policy",
+            chunk_header: "Refund policy",
+            description: "How and when refunds are issued.",
+            supp_id: "refunds",
+            link_to_source: undefined,
+            auto_context: undefined,
+          },
+          {
+            source: "docs/shipping.md",
+            title: "shipping",
+            chunk_header: "shipping",
+            description: "Orders ship within 2 days.",
+            supp_id: undefined,
+            link_to_source: undefined,
+            auto_context: undefined,
+          },
+        ]
+      );
+      assert.strictEqual(
+        plan.documents[0].content,
+        "# Refunds\n\nRefunds are issued within 30 days."
+      );
+      assert.deepStrictEqual(plan.skipped, [
+        { source: "docs/empty.md", reason: "no content" },
+        { source: "docs/logo.png", reason: "unsupported format" },
+      ]);
+    });
+
+    it("splits large files by heading", () => {
+      const markdown = [
+        "---",
+        "id: guide",
+        "url: https://example.com/guide",
+        "---",
+        "# Guide",
+        "",
+        "## Install",
+        "Run the installer.",
+        "### Windows",
+        "Use the MSI.",
+        "## Configure",
+        "Edit the config file.",
+      ].join("\n");
+      const html = [
+        "<html><head><title>FAQ</title>",
+        '<meta name="id" content="faq"></head>',
+        "<body><h1>FAQ</h1><p>Common questions &amp; answers.</p>",
+        "<h2>Billing</h2><ul><li>Refunds</li><li>Invoices</li></ul>",
+        "<script>ignored()</script></body></html>",
+      ].join("\n");
+
+      const plan = planIngestion(
+        [
+          { path: "guide.md", content: markdown },
+          { path: "faq.html", content: html },
+          { path: "short.md", content: "# Short\n\nText\n\n## Part\n\nMore" },
+        ],
+        { split: { headingLevel: 2, minLength: 50 } }
+      );
+
+      assert.deepStrictEqual(
+        plan.documents.map(
+          ({ section, title, chunk_header, supp_id, link_to_source }) => ({
+            section,
+            title,
+            chunk_header,
+            supp_id,
+            link_to_source,
+          })
+        ),
+        [
+          {
+            section: "install",
+            title: "Guide - Install",
+            chunk_header: "Guide > Install",
+            supp_id: "guide#install",
+            link_to_source: "https://example.com/guide#install",
+          },
+          {
+            section: "configure",
+            title: "Guide - Configure",
+            chunk_header: "Guide > Configure",
+            supp_id: "guide#configure",
+            link_to_source: "https://example.com/guide#configure",
+          },
+          {
+            section: "introduction",
+            title: "FAQ",
+            chunk_header: "FAQ",
+            supp_id: "faq#introduction",
+            link_to_source: undefined,
+          },
+          {
+            section: "billing",
+            title: "FAQ - Billing",
+            chunk_header: "FAQ > Billing",
+            supp_id: "faq#billing",
+            link_to_source: undefined,
+          },
+          {
+            section: undefined,
+            title: "Short",
+            chunk_header: "Short",
+            supp_id: undefined,
+            link_to_source: undefined,
+          },
+        ]
+      );
+      assert.strictEqual(
+        plan.documents[0].content,
+        "## Install\nRun the installer.\n### Windows\nUse the MSI."
+      );
+      assert.strictEqual(
+        plan.documents[2].content,
+        "# FAQ\n\nCommon questions & answers."
+      );
+      assert.strictEqual(
+        plan.documents[3].content,
+        "## Billing\n\n- Refunds\n- Invoices"
+      );
+      assert.strictEqual(
+        formatIngestionPlan(plan).split("\n")[0],
+        "+ guide.md#install  Guide - Install (54 chars, supp_id guide#install)"
+      );
+    });
+
+    it("creates the planned documents", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const plan = planIngestion([
+        { path: "notes.md", content: "---\nid: notes-1\n---\nSome notes." },
+      ]);
+
+      const { succeeded, results } = await client.document.ingestDocuments(
+        kb.id,
+        plan
+      );
+      assert.strictEqual(succeeded, 1);
+      assert.strictEqual(results[0].result?.supp_id, "notes-1");
+      assert.deepStrictEqual(server.requests[server.requests.length - 1].body, {
+        title: "notes",
+        content: "Some notes.",
+        chunk_header: "notes",
+        description: "Some notes.",
+        supp_id: "notes-1",
+      });
+    });
+
+    it("replaces invalid numeric entities instead of throwing", () => {
+      const plan = planIngestion([
+        {
+          path: "a.html",
+          content: "<body><p>&#99999999; &#xD800; &#x1F600; &#65;</p></body>",
+        },
+      ]);
+      assert.strictEqual(
+        plan.documents[0].content,
+        "\ufffd \ufffd \u{1F600} A"
+      );
+    });
+  });
+}
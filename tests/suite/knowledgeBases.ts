@@ -0,0 +1,52 @@
+import assert from "assert";
+import { NotFoundError } from "../../src/errors";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineKnowledgeBaseTests({ describe, it }: TestApi): void {
+  describe("knowledge bases", () => {
+    it("creates, updates, lists and deletes knowledge bases", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+
+      const updated = await client.knowledgeBase.updateKnowledgeBase(kb.id, {
+        description: "Product docs",
+      });
+      assert.strictEqual(updated.description, "Product docs");
+
+      const { knowledge_bases } =
+        await client.knowledgeBase.listKnowledgeBases();
+      assert.deepStrictEqual(
+        knowledge_bases.map(({ id }) => id),
+        [kb.id]
+      );
+
+      await client.knowledgeBase.deleteKnowledgeBase(kb.id);
+      await assert.rejects(
+        client.knowledgeBase.getKnowledgeBase(kb.id),
+        NotFoundError
+      );
+    });
+
+    it("resolves async queries through the job API", async () => {
+      const { client } = setup({ jobPolls: 2 });
+      const kb = await createKnowledgeBase(client);
+      await client.document.createDocumentWithRawText(kb.id, {
+        title: "Billing",
+        content: "Invoices are sent monthly",
+      });
+
+      const job = await client.knowledgeBase.queryKnowledgeBases({
+        query: "invoices",
+        knowledge_base_ids: [kb.id],
+        summarize_results: true,
+        async: true,
+      });
+      const result = await client.job.waitForQueryResponse(job, {
+        pollInterval: 1,
+      });
+
+      assert.strictEqual(result.ranked_results.length, 1);
+      assert.deepStrictEqual(result.summary.references, [0]);
+    });
+  });
+}
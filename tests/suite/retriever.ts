@@ -0,0 +1,62 @@
+import assert from "assert";
+import {
+  SuperpoweredRetriever,
+  createRetrieverTool,
+  toAnthropicTool,
+  toOpenAITool,
+} from "../../src/retriever";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineRetrieverTests({ describe, it }: TestApi): void {
+  describe("retriever", () => {
+    it("returns ranked results as documents and serves tool calls", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+      const refunds = await client.document.createDocumentWithRawText(kb.id, {
+        title: "Refund policy",
+        content: "Refunds are issued within 30 days",
+        link_to_source: "https://example.com/refunds",
+      });
+      await client.document.createDocumentWithRawText(kb.id, {
+        title: "Shipping",
+        content: "Orders ship within 2 days",
+      });
+
+      const retriever = new SuperpoweredRetriever(client.knowledgeBase, {
+        knowledgeBaseIds: [kb.id],
+        top_k: 5,
+        minScore: 0.6,
+      });
+      const documents = await retriever.getRelevantDocuments("refunds days");
+      assert.deepStrictEqual(documents, [
+        {
+          pageContent: "Refunds are issued within 30 days",
+          metadata: {
+            document_id: refunds.id,
+            knowledge_base_id: kb.id,
+            title: "Refund policy",
+            link_to_source: "https://example.com/refunds",
+            supp_id: undefined,
+            result_type: "chunk",
+            reranker_score: 1,
+            cosine_similarity: 1,
+          },
+        },
+      ]);
+
+      const tool = createRetrieverTool(retriever, { name: "search_docs" });
+      assert.strictEqual(toOpenAITool(tool).function.name, "search_docs");
+      assert.deepStrictEqual(toAnthropicTool(tool).input_schema.required, [
+        "query",
+      ]);
+      assert.strictEqual(
+        await tool.execute(JSON.stringify({ query: "refunds days" })),
+        "[1] Refund policy (https://example.com/refunds)\nRefunds are issued within 30 days"
+      );
+      assert.strictEqual(
+        await tool.execute({ query: "unrelated" }),
+        "No relevant documents found."
+      );
+    });
+  });
+}
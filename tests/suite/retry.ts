@@ -0,0 +1,83 @@
+import assert from "assert";
+import {
+  NotFoundError,
+  RateLimitError,
+  RequestAbortedError,
+  ServerError,
+} from "../../src/errors";
+import { getRetryDelay, resolveRetryOptions, withRetry } from "../../src/retry";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineRetryTests({ describe, it }: TestApi): void {
+  describe("errors and retries", () => {
+    it("maps failures to typed errors with request details", async () => {
+      const { client } = setup();
+      const error = await client.knowledgeBase
+        .getKnowledgeBase("missing")
+        .catch((e) => e);
+
+      assert.ok(error instanceof NotFoundError);
+      assert.strictEqual(error.status, 404);
+      assert.strictEqual(error.method, "GET");
+      assert.strictEqual(error.path, "/knowledge_bases/missing");
+    });
+
+    it("retries idempotent requests but not POSTs", async () => {
+      const { server, client } = setup();
+      server.failNext({ method: "GET", status: 503, times: 2 });
+      const { knowledge_bases } =
+        await client.knowledgeBase.listKnowledgeBases();
+      assert.deepStrictEqual(knowledge_bases, []);
+
+      server.failNext({ method: "POST", status: 500 });
+      await assert.rejects(createKnowledgeBase(client), ServerError);
+    });
+
+    it("surfaces Retry-After once retries are exhausted", async () => {
+      const { server, client } = setup();
+      server.failNext({
+        status: 429,
+        headers: { "retry-after": "0" },
+        times: 4,
+      });
+
+      const error = await client.knowledgeBase
+        .listKnowledgeBases()
+        .catch((e) => e);
+      assert.ok(error instanceof RateLimitError);
+      assert.strictEqual(error.retryAfter, 0);
+    });
+
+    it("caps Retry-After at maxDelay", async () => {
+      const options = resolveRetryOptions({ maxDelay: 5, jitter: false });
+      const error = new RateLimitError("Too many requests", {
+        status: 429,
+        retryAfter: 3600000,
+      });
+      assert.strictEqual(getRetryDelay(0, options, error), 5);
+
+      const { server, client } = setup();
+      server.failNext({ status: 429, headers: { "retry-after": "3600" } });
+      const started = Date.now();
+      await client.knowledgeBase.listKnowledgeBases();
+      assert.ok(Date.now() - started < 1000);
+    });
+
+    it("cancels the wait between retries when aborted", async () => {
+      const controller = new AbortController();
+      let attempts = 0;
+      const pending = withRetry(
+        async () => {
+          attempts++;
+          setTimeout(() => controller.abort(), 1);
+          throw new RateLimitError("Too many requests", { status: 429 });
+        },
+        resolveRetryOptions({ baseDelay: 60000, jitter: false }),
+        undefined,
+        controller.signal
+      );
+      await assert.rejects(pending, RequestAbortedError);
+      assert.strictEqual(attempts, 1);
+    });
+  });
+}
@@ -0,0 +1,80 @@
+import assert from "assert";
+import { ResponseValidationError } from "../../src/errors";
+import { isAsyncJobResponse } from "../../src/jobs";
+import { SuperpoweredApiClient } from "../../src/node/client";
+import {
+  DEFAULT_OPTIONS,
+  TestApi,
+  createKnowledgeBase,
+  setup,
+} from "../helpers";
+
+export function defineSchemaTests({ describe, it }: TestApi): void {
+  describe("response validation", () => {
+    it("accepts well-formed responses in strict mode", async () => {
+      const { client } = setup({}, { validation: "strict" });
+      const kb = await createKnowledgeBase(client);
+      await client.document.createDocumentWithRawText(kb.id, {
+        title: "Billing",
+        content: "Invoices are sent monthly",
+      });
+
+      const job = await client.knowledgeBase.queryKnowledgeBases({
+        query: "invoices",
+        knowledge_base_ids: [kb.id],
+        async: true,
+      });
+      const result = await client.job.waitForQueryResponse(job, {
+        pollInterval: 1,
+      });
+      assert.strictEqual(result.ranked_results.length, 1);
+
+      const thread = await client.chat.createChatThread({
+        title: "Support",
+        default_options: DEFAULT_OPTIONS,
+      });
+      const response = await client.chat.getChatThreadResponse(thread.id, {
+        input: "hello",
+      });
+      assert.ok(!isAsyncJobResponse(response));
+    });
+
+    it("throws on mismatches in strict mode and warns in lenient mode", async () => {
+      const { server, client } = setup({}, { validation: "strict" });
+      const kb = await createKnowledgeBase(client);
+      Object.assign(server.knowledgeBases.get(kb.id)!, {
+        created_on: "yesterday",
+        owner: "someone",
+      });
+
+      const error = await client.knowledgeBase
+        .getKnowledgeBase(kb.id)
+        .catch((e) => e);
+      assert.ok(error instanceof ResponseValidationError);
+      assert.strictEqual(error.path, "created_on");
+
+      const warnings: string[] = [];
+      const lenient = new SuperpoweredApiClient({
+        token: "token",
+        adapter: server.adapter,
+        validation: "lenient",
+        onValidationWarning: (message) => warnings.push(message),
+      });
+      const fetched = await lenient.knowledgeBase.getKnowledgeBase(kb.id);
+      assert.strictEqual((fetched as { owner?: string }).owner, "someone");
+      assert.strictEqual(warnings.length, 2);
+      assert.ok(warnings[1].indexOf("owner") !== -1);
+
+      server.failNext({
+        path: /\/knowledge_bases\/[^/]+$/,
+        status: 200,
+        body: "<html>Gateway login</html>",
+        headers: { "content-type": "text/html" },
+      });
+      await assert.rejects(
+        client.knowledgeBase.getKnowledgeBase(kb.id),
+        ResponseValidationError
+      );
+    });
+  });
+}
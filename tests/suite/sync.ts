@@ -0,0 +1,147 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SYNC_SUPP_ID_PREFIX, formatSyncPlan } from "../../src/node/sync";
+import { TestApi, createKnowledgeBase, setup } from "../helpers";
+
+export function defineSyncTests({ describe, it }: TestApi): void {
+  describe("sync", () => {
+    async function withDirectory(
+      files: Record<string, string>,
+      fn: (directory: string) => Promise<void>
+    ) {
+      const directory = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "superpowered-sync-")
+      );
+      try {
+        for (const file of Object.keys(files)) {
+          await fs.promises.mkdir(path.dirname(path.join(directory, file)), {
+            recursive: true,
+          });
+          await fs.promises.writeFile(path.join(directory, file), files[file]);
+        }
+        await fn(directory);
+      } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+      }
+    }
+
+    it("plans, dry-runs and applies creates, updates and deletions", async () => {
+      const { server, client } = setup();
+      const kb = await createKnowledgeBase(client);
+
+      await withDirectory(
+        {
+          "intro.md": "Intro",
+          "guide/setup.md": "Setup",
+          "notes.txt": "Notes",
+        },
+        async (directory) => {
+          const plan = await client.sync.plan(kb.id, directory, {
+            glob: "**/*.md",
+          });
+          assert.deepStrictEqual(
+            plan.actions.map(({ type, path }) => [type, path]),
+            [
+              ["create", "guide/setup.md"],
+              ["create", "intro.md"],
+            ]
+          );
+          assert.strictEqual(
+            formatSyncPlan(plan),
+            "+ guide/setup.md\n+ intro.md"
+          );
+
+          const dryRun = await client.sync.sync(kb.id, directory, {
+            glob: "**/*.md",
+            dryRun: true,
+          });
+          assert.strictEqual(dryRun.summary.create, 2);
+          assert.strictEqual(server.documents.size, 0);
+
+          const first = await client.sync.sync(kb.id, directory, {
+            glob: "**/*.md",
+          });
+          assert.strictEqual(first.summary.create, 2);
+          const documents = await client.document
+            .iterateDocuments(kb.id)
+            .collectAll();
+          assert.deepStrictEqual(
+            documents.map(({ file_name }) => file_name).sort(),
+            ["guide/setup.md", "intro.md"]
+          );
+          assert.ok(
+            documents.every(({ supp_id }) =>
+              supp_id!.startsWith(SYNC_SUPP_ID_PREFIX)
+            )
+          );
+
+          await fs.promises.writeFile(path.join(directory, "intro.md"), "New");
+          await fs.promises.rm(path.join(directory, "guide"), {
+            recursive: true,
+          });
+          const second = await client.sync.sync(kb.id, directory, {
+            glob: "**/*.md",
+            deleteOrphans: true,
+          });
+          assert.deepStrictEqual(
+            second.actions.map(({ type, path, success }) => [
+              type,
+              path,
+              success,
+            ]),
+            [
+              ["update", "intro.md", true],
+              ["delete", "guide/setup.md", true],
+            ]
+          );
+          const remaining = await client.document
+            .iterateDocuments(kb.id)
+            .collectAll();
+          assert.deepStrictEqual(
+            remaining.map(({ file_name }) => file_name),
+            ["intro.md"]
+          );
+
+          const third = await client.sync.plan(kb.id, directory, {
+            glob: "**/*.md",
+          });
+          assert.deepStrictEqual(
+            third.actions.map(({ type }) => type),
+            ["unchanged"]
+          );
+        }
+      );
+    });
+
+    it("leaves documents it did not create alone", async () => {
+      const { client } = setup();
+      const kb = await createKnowledgeBase(client);
+
+      await withDirectory({ "faq.md": "Questions" }, async (directory) => {
+        await client.document.uploadFile(
+          kb.id,
+          path.join(directory, "faq.md"),
+          {
+            suppId: "faq-42",
+          }
+        );
+        await fs.promises.writeFile(path.join(directory, "faq.md"), "Answers");
+
+        const report = await client.sync.sync(kb.id, directory, {
+          deleteOrphans: true,
+        });
+        assert.deepStrictEqual(
+          report.actions.map(({ type, path }) => [type, path]),
+          [["skip", "faq.md"]]
+        );
+        assert.strictEqual(report.summary.skip, 1);
+        const [document] = await client.document
+          .iterateDocuments(kb.id)
+          .collectAll();
+        assert.strictEqual(document.supp_id, "faq-42");
+      });
+    });
+  });
+}
@@ -0,0 +1,87 @@
+import assert from "assert";
+import { InvalidTranscriptError } from "../../src/errors";
+import { formatTranscript, parseTranscript } from "../../src/transcripts";
+import { TestApi, setup } from "../helpers";
+
+export function defineTranscriptTests({ describe, it }: TestApi): void {
+  describe("transcripts", () => {
+    it("exports threads and replays them into new threads", async () => {
+      const { server, client } = setup({}, { retry: false });
+      const conversation = client.chat.conversation({ title: "Support" });
+      await conversation.send("first");
+      await conversation.send("second");
+
+      const transcript = await client.chat.exportChatThread(conversation.id!);
+      assert.strictEqual(transcript.thread.title, "Support");
+      assert.strictEqual(transcript.interactions.length, 2);
+      for (const format of ["json", "jsonl"] as const) {
+        assert.deepStrictEqual(
+          parseTranscript(formatTranscript(transcript, format)),
+          transcript
+        );
+      }
+      assert.ok(
+        formatTranscript(transcript, "markdown").indexOf("## 2. User") !== -1
+      );
+
+      server.failNext({ path: /get_response$/, status: 500 });
+      const report = await client.chat.importChatThread(
+        formatTranscript(transcript, "jsonl")
+      );
+      assert.notStrictEqual(report.thread.id, conversation.id);
+      assert.strictEqual(report.thread.num_interactions, 1);
+      assert.deepStrictEqual(
+        report.failed.map(({ index, input }) => [index, input]),
+        [[0, "first"]]
+      );
+    });
+
+    it("rejects malformed interactions before creating a thread", async () => {
+      const { server, client } = setup();
+      const conversation = client.chat.conversation({ title: "Support" });
+      await conversation.send("first");
+      const transcript = await client.chat.exportChatThread(conversation.id!);
+      const threads = () =>
+        server.requests.filter(
+          ({ method, path }) => method === "POST" && path.endsWith("/threads")
+        ).length;
+      assert.strictEqual(threads(), 1);
+
+      const malformed = JSON.parse(formatTranscript(transcript, "json"));
+      delete malformed.interactions[0].user_input;
+      assert.throws(
+        () => parseTranscript(JSON.stringify(malformed)),
+        InvalidTranscriptError
+      );
+      await assert.rejects(
+        client.chat.importChatThread(malformed),
+        InvalidTranscriptError
+      );
+      assert.strictEqual(threads(), 1);
+    });
+
+    it("escapes titles and links in Markdown", async () => {
+      const { client } = setup();
+      const conversation = client.chat.conversation({ title: "[x](y)" });
+      await conversation.send("first");
+      const transcript = await client.chat.exportChatThread(conversation.id!);
+      transcript.interactions[0] = {
+        ...transcript.interactions[0],
+        web_search_results: [
+          { title: "A (b)", url: "javascript:alert(1)", content: "" },
+          { title: "[c]", url: "https://example.com/(d)", content: "" },
+        ],
+        web_search_references: [0, 1],
+      };
+
+      const markdown = formatTranscript(transcript, "markdown");
+      assert.ok(markdown.indexOf("# \\[x\\]\\(y\\)\n") === 0);
+      assert.ok(
+        markdown.indexOf("1. A \\(b\\) (javascript:alert\\(1\\))") !== -1
+      );
+      assert.ok(
+        markdown.indexOf("2. [\\[c\\]](https://example.com/%28d%29)") !== -1
+      );
+    });
+  });
+}